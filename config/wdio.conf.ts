@@ -1,5 +1,10 @@
 import * as path from 'node:path';
 import { testHooks } from '../support/hooks/test-hooks.js';
+import { getRunId } from '../support/utils/artifacts.js';
+import { markWorkerStart, recordWorkerFailure, reportQuarantinedTests } from '../support/utils/flakiness.js';
+
+// Fix the artifacts run id in the launcher so every worker writes into the same run folder
+getRunId();
 
 export const config: WebdriverIO.Config = {
     //
@@ -158,7 +163,23 @@ export const config: WebdriverIO.Config = {
     // Test reporter for stdout.
     // The only one supported by default is 'dot'
     // see also: https://webdriver.io/docs/dot-reporter
-    reporters: ['spec'],
+    // JUnit XML (one file per worker) and Allure results are written for CI dashboards;
+    // failures attach page source and screenshot to both (see support/utils/report-attachments.ts)
+    reporters: [
+        'spec',
+        ['junit', {
+            outputDir: path.join(process.cwd(), 'artifacts', 'junit'),
+            outputFileFormat: (options) => `results-${options.cid}.xml`,
+            addFileAttribute: true,
+            addWorkerLogs: true,
+        }],
+        ['allure', {
+            outputDir: path.join(process.cwd(), 'artifacts', 'allure-results'),
+            disableWebdriverStepsReporting: true,
+            disableWebdriverScreenshotsReporting: true,
+            addConsoleLogs: true,
+        }],
+    ],
 
     // Options to be passed to Mocha.
     // See the full list at http://mochajs.org/
@@ -191,8 +212,9 @@ export const config: WebdriverIO.Config = {
      * @param  {object} args     object that will be merged with the main configuration once worker is initialized
      * @param  {object} execArgv list of string arguments passed to the worker process
      */
-    // onWorkerStart: function (cid, caps, specs, args, execArgv) {
-    // },
+    onWorkerStart: function (cid) {
+        markWorkerStart(cid);
+    },
     /**
      * Gets executed just after a worker process has exited.
      * @param  {string} cid      capability id (e.g 0-0)
@@ -200,8 +222,9 @@ export const config: WebdriverIO.Config = {
      * @param  {object} specs    specs to be run in the worker process
      * @param  {number} retries  number of retries used
      */
-    // onWorkerEnd: function (cid, exitCode, specs, retries) {
-    // },
+    onWorkerEnd: function (cid, exitCode, specs) {
+        recordWorkerFailure(cid, exitCode, specs);
+    },
     /**
      * Gets executed just before initialising the webdriver session and test framework. It allows you
      * to manipulate configurations depending on the capability or spec.
@@ -237,8 +260,7 @@ export const config: WebdriverIO.Config = {
     /**
      * Function to be executed before a test (in Mocha/Jasmine) starts.
      */
-    // beforeTest: function (test, context) {
-    // },
+    beforeTest: testHooks.beforeTest,
     /**
      * Hook that gets executed _before_ a hook within the suite starts (e.g. runs before calling
      * beforeEach in Mocha)
@@ -249,8 +271,7 @@ export const config: WebdriverIO.Config = {
      * Hook that gets executed _after_ a hook within the suite starts (e.g. runs after calling
      * afterEach in Mocha)
      */
-    // afterHook: function (test, context, { error, result, duration, passed, retries }, hookName) {
-    // },
+    afterHook: testHooks.afterHook,
     /**
      * Function to be executed after a test (in Mocha/Jasmine only)
      * @param {object}  test             test object
@@ -304,8 +325,9 @@ export const config: WebdriverIO.Config = {
      * @param {Array.<Object>} capabilities list of capabilities details
      * @param {<Object>} results object containing test results
      */
-    // onComplete: function(exitCode, config, capabilities, results) {
-    // },
+    onComplete: function () {
+        reportQuarantinedTests();
+    },
     /**
     * Gets executed when a refresh happens.
     * @param {string} oldSessionId session ID of the old session
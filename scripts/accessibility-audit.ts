@@ -0,0 +1,60 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { auditScreen, formatAuditMarkdown } from '../support/utils/accessibility-audit.js';
+import { findArtifactFiles } from '../support/utils/artifacts.js';
+import { analyzeDOMFile, getCaptureSourceDir } from '../support/utils/dom-analysis.js';
+
+/**
+ * Audit the captured screens for accessibility issues: buttons and text fields without an identifier or label,
+ * duplicate identifiers, controls marked accessible="false" and touch targets under 44×44 pt.
+ * Writes accessibility-audit.json and accessibility-audit.md next to the captures.
+ * Usage: npm run accessibility-audit -- [captures folder] [--max-issues 10]
+ * Exits with 1 when --max-issues is given and the screens have more issues than that.
+ */
+function auditAccessibility() {
+    const args = process.argv.slice(2);
+    const maxIndex = args.indexOf('--max-issues');
+    const maxIssues = maxIndex === -1 ? undefined : Number(args.splice(maxIndex, 2)[1]);
+    const sourceDir = getCaptureSourceDir(args[0]);
+
+    if (maxIssues !== undefined && Number.isNaN(maxIssues)) {
+        console.error('Usage: npm run accessibility-audit -- [captures folder] [--max-issues 10]');
+        process.exit(1);
+    }
+    if (!sourceDir || !fs.existsSync(sourceDir)) {
+        console.log('❌ No DOM captures found (dom-captures/ or artifacts/runs). Please run the test first to capture DOM trees.');
+        process.exit(1);
+    }
+
+    const files = findArtifactFiles('.xml', sourceDir).sort();
+    if (files.length === 0) {
+        console.log(`❌ No DOM tree files found in ${sourceDir}.`);
+        process.exit(1);
+    }
+
+    const audits = files.map((file) => auditScreen(analyzeDOMFile(file)));
+    const total = audits.reduce((sum, audit) => sum + audit.issues.length, 0);
+
+    console.log(`\n📊 Audited ${files.length} DOM tree file(s) in ${sourceDir}\n`);
+    for (const audit of audits) {
+        console.log(`📱 ${audit.screenName}: ${audit.issues.length === 0 ? 'no issues' : `${audit.issues.length} issue(s)`}`);
+        for (const issue of audit.issues) {
+            console.log(`   - [${issue.rule}] ${issue.message}`);
+        }
+    }
+
+    const jsonPath = path.join(sourceDir, 'accessibility-audit.json');
+    const markdownPath = path.join(sourceDir, 'accessibility-audit.md');
+    fs.writeFileSync(jsonPath, JSON.stringify(audits, null, 2));
+    fs.writeFileSync(markdownPath, formatAuditMarkdown(audits));
+    console.log(`\n💾 Report saved to: ${jsonPath}\n💾 Report saved to: ${markdownPath}`);
+
+    console.log('\n' + '='.repeat(80));
+    if (maxIssues !== undefined && total > maxIssues) {
+        console.log(`❌ ${total} issue(s), more than the allowed ${maxIssues}`);
+        process.exit(1);
+    }
+    console.log(`${total} issue(s)${maxIssues !== undefined ? ` (allowed: ${maxIssues})` : ''}`);
+}
+
+auditAccessibility();
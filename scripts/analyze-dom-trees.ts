@@ -1,121 +1,45 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-
-interface ElementInfo {
-    type: string;
-    name?: string;
-    label?: string;
-    value?: string;
-    visible?: string;
-    accessible?: string;
-    enabled?: string;
-}
-
-interface ScreenElements {
-    screenName: string;
-    elements: ElementInfo[];
-}
-
-/**
- * Extract attribute value from XML element string
- */
-function getAttribute(xmlLine: string, attrName: string): string | undefined {
-    const regex = new RegExp(`${attrName}="([^"]*)"`, 'i');
-    const match = xmlLine.match(regex);
-    return match ? match[1] : undefined;
-}
-
-/**
- * Extract element type from XML line
- */
-function getElementType(xmlLine: string): string | undefined {
-    const match = xmlLine.match(/<([A-Za-z][A-Za-z0-9]*)/);
-    return match ? match[1] : undefined;
-}
-
-/**
- * Parse XML and extract all elements
- */
-function extractElements(xmlContent: string): ElementInfo[] {
-    const elements: ElementInfo[] = [];
-    const lines = xmlContent.split('\n');
-    
-    for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed.startsWith('<') || trimmed.startsWith('<?') || trimmed.startsWith('</')) {
-            continue;
-        }
-        
-        const elementType = getElementType(trimmed);
-        if (!elementType) {
-            continue;
-        }
-        
-        const name = getAttribute(trimmed, 'name');
-        const label = getAttribute(trimmed, 'label');
-        const value = getAttribute(trimmed, 'value');
-        const visible = getAttribute(trimmed, 'visible');
-        const accessible = getAttribute(trimmed, 'accessible');
-        const enabled = getAttribute(trimmed, 'enabled');
-        
-        // Only include elements that have at least name or label (interactive elements)
-        if (name || label || elementType.includes('Button') || elementType.includes('TextField') || 
-            elementType.includes('Switch') || elementType.includes('StaticText')) {
-            elements.push({
-                type: elementType,
-                name,
-                label,
-                value,
-                visible,
-                accessible,
-                enabled
-            });
-        }
-    }
-    
-    return elements;
-}
+import { findArtifactFiles } from '../support/utils/artifacts.js';
+import { analyzeDOMFile, getCaptureSourceDir, type ElementInfo, type ScreenElements } from '../support/utils/dom-analysis.js';
+import { toCamelCase } from '../support/utils/objects-source.js';
+import { formatBounds } from '../support/utils/page-source.js';
 
 /**
- * Analyze a single DOM tree file
+ * Where an element sits, e.g. ` in routine-detail › workout-day-1 @ (16, 220) 343×44`
  */
-function analyzeDOMFile(filePath: string): ScreenElements {
-    const xmlContent = fs.readFileSync(filePath, 'utf-8');
-    const screenName = path.basename(filePath, '.xml').replace('dom-tree-', '').split('-').slice(0, -1).join('-');
-    
-    const elements = extractElements(xmlContent);
-    return {
-        screenName,
-        elements
-    };
+function describeLocation(element: ElementInfo): string {
+    const container = element.ancestry.length > 0 ? ` in ${element.ancestry.join(' › ')}` : '';
+    const bounds = element.bounds ? ` @ ${formatBounds(element.bounds)}` : '';
+    return `${container}${bounds}`;
 }
 
 /**
  * Main analysis function
  */
 async function analyzeAllDOMTrees() {
-    const domCapturesDir = path.join(process.cwd(), 'dom-captures');
-    
-    if (!fs.existsSync(domCapturesDir)) {
-        console.log('❌ dom-captures directory not found. Please run the test first to capture DOM trees.');
+    const sourceDir = getCaptureSourceDir(process.argv[2]);
+
+    if (!sourceDir || !fs.existsSync(sourceDir)) {
+        console.log('❌ No DOM captures found (dom-captures/ or artifacts/runs). Please run the test first to capture DOM trees.');
         return;
     }
-    
-    const files = fs.readdirSync(domCapturesDir)
-        .filter(file => file.endsWith('.xml'))
+
+    const files = findArtifactFiles('.xml', sourceDir)
+        .map(file => path.relative(sourceDir, file))
         .sort();
-    
+
     if (files.length === 0) {
-        console.log('❌ No DOM tree files found in dom-captures directory.');
+        console.log(`❌ No DOM tree files found in ${sourceDir}.`);
         return;
     }
-    
-    console.log(`\n📊 Analyzing ${files.length} DOM tree file(s)...\n`);
-    
+
+    console.log(`\n📊 Analyzing ${files.length} DOM tree file(s) in ${sourceDir}...\n`);
+
     const allScreens: ScreenElements[] = [];
-    
+
     for (const file of files) {
-        const filePath = path.join(domCapturesDir, file);
+        const filePath = path.join(sourceDir, file);
         try {
             const screenData = analyzeDOMFile(filePath);
             allScreens.push(screenData);
@@ -150,19 +74,37 @@ async function analyzeAllDOMTrees() {
         if (withName.length > 0) {
             console.log(`\n   Elements with Accessibility Identifiers (${withName.length}):`);
             for (const element of withName.slice(0, 20)) { // Limit to first 20
-                console.log(`     - ${element.type}: name="${element.name}"${element.label ? `, label="${element.label}"` : ''}`);
+                console.log(`     - ${element.type}: name="${element.name}"${element.label ? `, label="${element.label}"` : ''}${describeLocation(element)}`);
             }
             if (withName.length > 20) {
                 console.log(`     ... and ${withName.length - 20} more`);
             }
         }
+
+        // Show which named container holds which elements, e.g. the sets-input-* of each workout-day-*
+        const byContainer = new Map<string, string[]>();
+        for (const element of withName) {
+            const container = element.ancestry[element.ancestry.length - 1];
+            if (container) {
+                byContainer.set(container, [...(byContainer.get(container) ?? []), element.name!]);
+            }
+        }
+        if (byContainer.size > 0) {
+            console.log(`\n   Containers (${byContainer.size}):`);
+            for (const [container, names] of [...byContainer].slice(0, 20)) {
+                console.log(`     - ${container}: ${names.join(', ')}`);
+            }
+            if (byContainer.size > 20) {
+                console.log(`     ... and ${byContainer.size - 20} more`);
+            }
+        }
         
         // Show elements with labels but no name
         const withLabelOnly = screen.elements.filter(e => e.label && !e.name);
         if (withLabelOnly.length > 0) {
             console.log(`\n   Elements with Labels only (${withLabelOnly.length}):`);
             for (const element of withLabelOnly.slice(0, 10)) {
-                console.log(`     - ${element.type}: label="${element.label}"`);
+                console.log(`     - ${element.type}: label="${element.label}"${describeLocation(element)}`);
             }
             if (withLabelOnly.length > 10) {
                 console.log(`     ... and ${withLabelOnly.length - 10} more`);
@@ -201,16 +143,17 @@ async function analyzeAllDOMTrees() {
         if (allElements.size > 0) {
             console.log('\n   Suggested selectors:');
             for (const [name] of allElements) {
-                const selectorName = name.replace(/-/g, '').replace(/([A-Z])/g, '$1').toLowerCase();
+                const selectorName = toCamelCase(name);
                 console.log(`   public get ${selectorName}() {`);
                 console.log(`       return $('~${name}');`);
                 console.log(`   }`);
             }
+            console.log(`\n   Write them to an objects file with: npm run generate-objects -- ${screenGroup}`);
         }
     }
     
     // Save detailed JSON report
-    const reportPath = path.join(domCapturesDir, 'element-analysis-report.json');
+    const reportPath = path.join(sourceDir, 'element-analysis-report.json');
     fs.writeFileSync(reportPath, JSON.stringify(allScreens, null, 2));
     console.log(`\n💾 Detailed report saved to: ${reportPath}\n`);
 }
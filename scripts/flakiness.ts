@@ -0,0 +1,144 @@
+import {
+    computeFlakiness,
+    findQuarantineEntry,
+    getRunOutcomes,
+    HISTORY_FILE,
+    QUARANTINE_FILE,
+    readHistory,
+    readQuarantine,
+    readRunFailures,
+    writeQuarantine,
+} from '../support/utils/flakiness.js';
+
+/**
+ * Print the flakiness score of every test over its recent runs, with the quarantined tests listed apart
+ * @param lastRuns Number of recent runs of each test to score
+ */
+function report(lastRuns: number) {
+    const scores = computeFlakiness(readHistory(), lastRuns);
+    if (scores.length === 0) {
+        console.error(`No test results in ${HISTORY_FILE}.`);
+        console.error('Run the tests first, results are appended after each test.');
+        process.exit(1);
+    }
+
+    const printRow = (score: (typeof scores)[number]) => console.log(
+        `  ${score.score.toFixed(2).padStart(5)} ${String(score.runs).padStart(5)} ${String(score.failed).padStart(6)} ` +
+        `${String(score.flaky).padStart(6)} ${String(score.flips).padStart(6)}  ${score.lastOutcome.padEnd(7)} ${score.test}`,
+    );
+    const header = `  ${'score'.padStart(5)} ${'runs'.padStart(5)} ${'failed'.padStart(6)} ${'flaky'.padStart(6)} ${'flips'.padStart(6)}  ${'last'.padEnd(7)} test`;
+
+    console.log(`\n=== Flakiness: ${scores.length} tests, last ${lastRuns} runs each ===\n`);
+    console.log(header);
+    scores.filter((score) => !score.quarantined).forEach(printRow);
+
+    const quarantined = scores.filter((score) => score.quarantined);
+    if (quarantined.length > 0) {
+        console.log('\nQuarantined:');
+        console.log(header);
+        quarantined.forEach(printRow);
+    }
+    console.log('\nscore = (runs passed only on retry + pass/fail flips between runs) / runs');
+}
+
+/**
+ * Decide the build result of a failed run: exit 0 when every test that failed is on the quarantine list
+ * and nothing failed outside the tests (hooks, sessions).
+ * Run by `npm run test:ci` with the run's ARTIFACTS_RUN_ID when `npm run wdio` fails
+ * @param runId Run to check
+ */
+function gate(runId: string | undefined) {
+    if (!runId) {
+        console.error('Usage: npm run flakiness -- gate <run-id>');
+        process.exit(1);
+    }
+    const records = readHistory().filter((record) => record.runId === runId);
+    if (records.length === 0) {
+        console.error(`❌ No test recorded for run ${runId}: the run failed before its tests.`);
+        process.exit(1);
+    }
+
+    const runFailures = readRunFailures(runId);
+    for (const failure of runFailures) {
+        console.error(`❌ ${failure.source}${failure.spec ? ` (${failure.spec})` : ''}: ${failure.error ?? 'failed'}`);
+    }
+    if (runFailures.length > 0) {
+        console.error('\n❌ The run failed outside its tests: the build fails.');
+        process.exit(1);
+    }
+
+    const outcomes = [...getRunOutcomes(records).values()].map((runs) => runs[runs.length - 1]);
+    const failed = outcomes.filter(({ outcome }) => outcome === 'failed');
+    const entries = readQuarantine();
+    const isQuarantined = (test: string) => findQuarantineEntry(test, entries) !== undefined;
+    const blocking = failed.filter(({ record }) => !isQuarantined(record.test));
+
+    if (failed.length === 0) {
+        console.error(`❌ No failed test recorded for run ${runId}: the run failed for another reason.`);
+        process.exit(1);
+    }
+    for (const { record } of failed) {
+        console.log(`${isQuarantined(record.test) ? '🚧 quarantined' : '❌ failed     '} ${record.test}`);
+    }
+    if (blocking.length > 0) {
+        console.error(`\n❌ ${blocking.length} failed test(s) are not quarantined: the build fails.`);
+        process.exit(1);
+    }
+    console.log(`\n✅ All ${failed.length} failed test(s) are quarantined: the build passes.`);
+}
+
+/**
+ * List, add or remove quarantined tests
+ * Usage: quarantine [add <test> <reason> [owner] | remove <test>]
+ */
+function quarantine(args: string[]) {
+    const [action, test, reason, owner] = args;
+    const entries = readQuarantine();
+
+    if (action === 'add') {
+        if (!test || !reason) {
+            console.error('Usage: npm run flakiness -- quarantine add "<suite> › <title>" "<reason>" [owner]');
+            process.exit(1);
+        }
+        if (findQuarantineEntry(test, entries)) {
+            console.log(`${test} is already quarantined.`);
+            return;
+        }
+        entries.push({ test, reason, owner, since: new Date().toISOString().slice(0, 10) });
+        writeQuarantine(entries);
+        console.log(`🚧 Quarantined ${test}`);
+    } else if (action === 'remove') {
+        const remaining = entries.filter((entry) => entry.test !== test);
+        if (remaining.length === entries.length) {
+            console.error(`${test} is not in ${QUARANTINE_FILE}.`);
+            process.exit(1);
+        }
+        writeQuarantine(remaining);
+        console.log(`✅ Released ${test} from quarantine`);
+    } else {
+        if (entries.length === 0) {
+            console.log('No quarantined tests.');
+        }
+        for (const entry of entries) {
+            console.log(`🚧 ${entry.test}\n   ${entry.reason}${entry.owner ? ` (${entry.owner})` : ''}${entry.since ? `, since ${entry.since}` : ''}`);
+        }
+    }
+}
+
+/**
+ * Usage: npm run flakiness -- [report [runs] | gate <run-id> | quarantine ...] (default: report over 20 runs)
+ */
+const [command, ...args] = process.argv.slice(2);
+switch (command) {
+    case 'gate':
+        gate(args[0]);
+        break;
+    case 'quarantine':
+        quarantine(args);
+        break;
+    case 'report':
+        report(Number(args[0]) || 20);
+        break;
+    default:
+        report(Number(command) || 20);
+}
@@ -0,0 +1,95 @@
+import * as fs from 'node:fs';
+import { createRequire } from 'node:module';
+import * as path from 'node:path';
+import { exportPlan, resetPlan } from '../support/utils/fluent-plan.js';
+
+// mocha is a CommonJS module exporting the Mocha class itself
+const Mocha = createRequire(import.meta.url)('mocha') as typeof import('mocha');
+
+/** Folder the plans are written to, one JSON file per spec */
+const PLANS_DIR = path.join(process.cwd(), 'artifacts', 'plans');
+/** Write service the specs arrange their test data through (the basePath of their API clients) */
+const WRITE_SERVICE_URL = process.env.WRITE_SERVICE_URL ?? 'http://localhost:8080/xq-fitness-write-service/api/v1';
+
+/**
+ * Whether the write service answers at all; any HTTP status counts, only a connection failure does not
+ */
+async function isBackendReachable(): Promise<boolean> {
+    try {
+        await fetch(WRITE_SERVICE_URL, { signal: AbortSignal.timeout(5000) });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * A browser whose commands only log and resolve to undefined, so spec hooks such as
+ * `browser.reloadSession()` or `browser.activateApp()` run without Appium or a simulator
+ */
+function createDryRunBrowser(): object {
+    return new Proxy({}, {
+        get: (_target, command) => async (...args: unknown[]) => {
+            console.log(`      🧪 dry run: browser.${String(command)}(${args.map((arg) => JSON.stringify(arg)).join(', ')})`);
+            return undefined;
+        },
+    });
+}
+
+/**
+ * Run one spec under Mocha with the fluent proxies in dry-run mode and write its plan
+ * @returns Number of failed tests; their plan stops at the failure
+ */
+async function recordSpecPlan(specFile: string): Promise<number> {
+    resetPlan();
+    const mocha = new Mocha({ ui: 'bdd', reporter: 'spec', timeout: 60 * 1000 });
+    mocha.addFile(path.resolve(specFile));
+    await mocha.loadFilesAsync();
+    const failures = await new Promise<number>((resolve) => mocha.run(resolve));
+    exportPlan(path.join(PLANS_DIR, `${path.basename(specFile, '.spec.ts')}.json`));
+    return failures;
+}
+
+/**
+ * Record the fluent plan of specs without a simulator: the specs run under plain Mocha instead of WebdriverIO,
+ * with FLUENT_DRY_RUN=true and a browser whose commands do nothing, so no Appium session is started.
+ * Each spec's plan is written to artifacts/plans/<spec>.json, to review it, diff it between branches
+ * or replay it later with replayPlan().
+ * Limits: test data arranged through the write-service API still needs the backend (WRITE_SERVICE_URL, checked
+ * before running), and browser commands resolve to undefined, browser.execute() included, so a spec branching
+ * on a command's result is recorded along the branch taken for undefined.
+ * Usage: npm run fluent-plan -- [spec.ts ...]   (default: tests/*.spec.ts)
+ */
+async function recordPlans() {
+    const specs = process.argv.slice(2);
+    const specFiles = specs.length > 0
+        ? specs
+        : fs.readdirSync('tests').filter((file) => file.endsWith('.spec.ts')).sort().map((file) => path.join('tests', file));
+    if (specFiles.length === 0) {
+        console.error('❌ No spec files found.');
+        console.error('Usage: npm run fluent-plan -- [spec.ts ...]');
+        process.exit(1);
+    }
+
+    if (!(await isBackendReachable())) {
+        console.error(`❌ The write service is not reachable at ${WRITE_SERVICE_URL}.`);
+        console.error('The specs arrange their test data through it even in dry run: start the backend (test-env) first.');
+        process.exit(1);
+    }
+
+    process.env.FLUENT_DRY_RUN = 'true';
+    const dryRunBrowser = createDryRunBrowser();
+    Object.assign(globalThis, { browser: dryRunBrowser, driver: dryRunBrowser });
+
+    let failures = 0;
+    for (const specFile of specFiles) {
+        failures += await recordSpecPlan(specFile);
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} test(s) failed in dry run; their plans stop at the failure.`);
+        process.exit(1);
+    }
+}
+
+recordPlans();
@@ -0,0 +1,71 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { findArtifactFiles, RUNS_DIR } from '../support/utils/artifacts.js';
+import { collectCaptureIds, generateObjectsSource, OBJECTS_DIR, toIdTemplates } from '../support/utils/objects-source.js';
+import { getCaptureScreenName } from '../support/utils/page-source.js';
+
+/**
+ * Captures of a screen: the given files and folders, or every `dom-tree-<screen>.xml`
+ * in dom-captures/ and artifacts/runs
+ */
+function findCaptures(screen: string, sources: string[]): string[] {
+    if (sources.length > 0) {
+        return sources.flatMap((source) => fs.statSync(source).isDirectory() ? findArtifactFiles('.xml', source) : [source]);
+    }
+    return [path.join(process.cwd(), 'dom-captures'), RUNS_DIR]
+        .flatMap((root) => findArtifactFiles('.xml', root))
+        .filter((file) => path.basename(file).startsWith('dom-tree-') && getCaptureScreenName(file) === screen);
+}
+
+/**
+ * Write or update tests/page-objects/objects/<screen>.objects.ts from DOM captures of the screen.
+ * Existing getters are kept; getters (or methods for ids with numbers or data names, e.g. muscle-group-{id},
+ * routine-{name}) are added for the ids no selector covers yet.
+ * A data name is only recognised from its first capitalised part (`routine-Push-Day`); ids built from
+ * lowercase names (`routine-push-day`) get one getter each, to be merged by hand.
+ * Usage: npm run generate-objects -- <screen> [capture.xml | folder ...] [--dry-run]
+ */
+function generateObjects() {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const [screen, ...sources] = args.filter((arg) => arg !== '--dry-run');
+
+    if (!screen) {
+        console.error('Usage: npm run generate-objects -- <screen> [capture.xml | folder ...] [--dry-run]');
+        console.error('Example: npm run generate-objects -- weekly-report');
+        process.exit(1);
+    }
+
+    const captures = findCaptures(screen, sources);
+    if (captures.length === 0) {
+        console.error(`❌ No captures found for ${screen}.`);
+        console.error(`Capture the screen with captureDOMTree('${screen}') or pass capture files.`);
+        process.exit(1);
+    }
+
+    const templates = toIdTemplates(collectCaptureIds(captures.map((file) => fs.readFileSync(file, 'utf-8'))));
+    const filePath = path.join(OBJECTS_DIR, `${screen}.objects.ts`);
+    const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+    const { source, added, skipped } = generateObjectsSource(screen, templates, existing);
+
+    console.log(`\n📄 ${path.relative(process.cwd(), filePath)} from ${captures.length} capture(s), ${templates.length} id(s)`);
+    for (const name of added) {
+        console.log(`   + ${name}`);
+    }
+    for (const { template, reason } of skipped) {
+        console.log(`   = ${template}: ${reason}`);
+    }
+
+    if (dryRun) {
+        console.log(`\n${source}`);
+        return;
+    }
+    if (added.length === 0 && existing !== undefined) {
+        console.log('\n✅ Up to date, nothing to add.');
+        return;
+    }
+    fs.writeFileSync(filePath, source);
+    console.log(`\n💾 ${existing === undefined ? 'Created' : 'Updated'} ${filePath}`);
+}
+
+generateObjects();
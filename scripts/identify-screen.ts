@@ -0,0 +1,35 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { findArtifactFiles, RUNS_DIR } from '../support/utils/artifacts.js';
+import { formatScreenMatch, identifyScreenFromFile } from '../support/utils/screen-fingerprint.js';
+
+/**
+ * Classify saved page sources offline: My Routines, Create Routine, Routine Detail, Manage Workout Day,
+ * Manage Exercise, Weekly Report, a system alert or unknown.
+ * Usage: npm run identify-screen -- [page-source.xml | folder ...]
+ * Without arguments, the failure captures (page-source-failure.xml) of the latest run are classified.
+ */
+function identifyScreens() {
+    const sources = process.argv.slice(2);
+    let files: string[];
+    if (sources.length > 0) {
+        files = sources.flatMap((source) => fs.statSync(source).isDirectory() ? findArtifactFiles('.xml', source) : [source]);
+    } else {
+        const latestRun = fs.existsSync(RUNS_DIR) ? fs.readdirSync(RUNS_DIR).sort().pop() : undefined;
+        files = latestRun
+            ? findArtifactFiles('.xml', path.join(RUNS_DIR, latestRun)).filter((file) => path.basename(file).startsWith('page-source-failure'))
+            : [];
+    }
+
+    if (files.length === 0) {
+        console.error('❌ No page sources found.');
+        console.error('Usage: npm run identify-screen -- [page-source.xml | folder ...]');
+        process.exit(1);
+    }
+
+    for (const file of files.sort()) {
+        console.log(`📱 ${formatScreenMatch(identifyScreenFromFile(file))}  ${path.relative(process.cwd(), file)}`);
+    }
+}
+
+identifyScreens();
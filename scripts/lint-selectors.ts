@@ -0,0 +1,72 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { RUNS_DIR } from '../support/utils/artifacts.js';
+import { collectSelectors, lintSelectors, loadCorpus, SELECTOR_CORPUS_DIR } from '../support/utils/selector-lint.js';
+
+/**
+ * Corpus folder: the argument, tests/dom-corpus, dom-captures/ or the latest artifacts run
+ */
+function getCorpusDir(arg?: string): string | undefined {
+    if (arg) {
+        return path.resolve(arg);
+    }
+    const candidates = [SELECTOR_CORPUS_DIR, path.join(process.cwd(), 'dom-captures')];
+    const found = candidates.find((dir) => fs.existsSync(dir));
+    if (found) {
+        return found;
+    }
+    const latestRun = fs.existsSync(RUNS_DIR) ? fs.readdirSync(RUNS_DIR).sort().pop() : undefined;
+    return latestRun ? path.join(RUNS_DIR, latestRun) : undefined;
+}
+
+/**
+ * Check every objects-layer selector (and the predicate strings of support/utils/common.ts)
+ * against stored DOM captures, without a simulator.
+ * Usage: npm run lint:selectors -- [corpus folder] [--json report.json] [--strict]
+ * Exits with 1 on errors, or on warnings too with --strict.
+ */
+function lintAllSelectors() {
+    const args = process.argv.slice(2);
+    const jsonIndex = args.indexOf('--json');
+    const jsonPath = jsonIndex === -1 ? undefined : args.splice(jsonIndex, 2)[1];
+    const strict = args.includes('--strict');
+    const corpusDir = getCorpusDir(args.find((arg) => arg !== '--strict'));
+
+    if (!corpusDir || !fs.existsSync(corpusDir)) {
+        console.error('❌ No DOM captures found (tests/dom-corpus, dom-captures/ or artifacts/runs).');
+        console.error('Usage: npm run lint:selectors -- [corpus folder] [--json report.json] [--strict]');
+        process.exit(1);
+    }
+
+    const corpus = loadCorpus(corpusDir);
+    if (corpus.length === 0) {
+        console.error(`❌ No DOM tree files found in ${corpusDir}.`);
+        process.exit(1);
+    }
+
+    const selectors = collectSelectors();
+    const findings = lintSelectors(selectors, corpus);
+    const errors = findings.filter((finding) => finding.severity === 'error');
+    const warnings = findings.filter((finding) => finding.severity === 'warning');
+
+    console.log(`\n📊 Linting ${selectors.length} selector(s) against ${corpus.length} capture(s) in ${corpusDir}\n`);
+    for (const finding of findings) {
+        const icon = finding.severity === 'error' ? '❌' : '⚠️';
+        console.log(`${icon} ${finding.selector.location}  ${finding.selector.owner}  [${finding.rule}]`);
+        console.log(`   ${finding.selector.selector}`);
+        console.log(`   ${finding.message}`);
+    }
+
+    console.log('\n' + '='.repeat(80));
+    console.log(`${errors.length} error(s), ${warnings.length} warning(s)`);
+
+    if (jsonPath) {
+        fs.writeFileSync(jsonPath, JSON.stringify({ corpusDir, captures: corpus.map((capture) => capture.file), findings }, null, 2));
+        console.log(`💾 Report saved to: ${jsonPath}`);
+    }
+    if (errors.length > 0 || (strict && warnings.length > 0)) {
+        process.exit(1);
+    }
+}
+
+lintAllSelectors();
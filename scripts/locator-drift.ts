@@ -0,0 +1,82 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { compareCaptureSets, type ScreenId } from '../support/utils/locator-drift.js';
+
+/**
+ * Short form of an id for the report, e.g. `sets-input-{id} (TextField, "Sets")`
+ */
+function formatId(entry: ScreenId): string {
+    const type = entry.type.replace(/^XCUIElementType/, '');
+    return `${entry.id} (${type}${entry.label ? `, "${entry.label}"` : ''})`;
+}
+
+/**
+ * Compare the DOM captures of two app builds and report identifier drift per screen,
+ * plus the objects-layer getters that reference identifiers the new build no longer has.
+ * Usage: npm run locator-drift -- <old captures folder> <new captures folder> [--json report.json]
+ * Exits with 1 when getters reference removed identifiers.
+ */
+function reportLocatorDrift() {
+    const args = process.argv.slice(2);
+    const jsonIndex = args.indexOf('--json');
+    const jsonPath = jsonIndex === -1 ? undefined : args.splice(jsonIndex, 2)[1];
+    const [oldDir, newDir] = args;
+
+    if (!oldDir || !newDir || !fs.existsSync(oldDir) || !fs.existsSync(newDir)) {
+        console.error('Usage: npm run locator-drift -- <old captures folder> <new captures folder> [--json report.json]');
+        process.exit(1);
+    }
+
+    const report = compareCaptureSets(path.resolve(oldDir), path.resolve(newDir));
+
+    console.log('\n' + '='.repeat(80));
+    console.log('LOCATOR DRIFT REPORT');
+    console.log('='.repeat(80));
+    console.log(`Old: ${report.oldDir}\nNew: ${report.newDir}`);
+
+    for (const screen of report.screens) {
+        if (screen.onlyIn) {
+            console.log(`\n📱 ${screen.screen}: captured in the ${screen.onlyIn} set only, not compared`);
+            continue;
+        }
+        const changes = screen.added.length + screen.removed.length + screen.renamed.length + screen.changed.length;
+        console.log(`\n📱 ${screen.screen}: ${changes === 0 ? 'no changes' : `${changes} change(s)`}`);
+        for (const { from, to, score } of screen.renamed) {
+            console.log(`   ~ renamed  ${from.id} → ${to.id} (${Math.round(score * 100)}%)`);
+        }
+        for (const entry of screen.removed) {
+            console.log(`   - removed  ${formatId(entry)}`);
+        }
+        for (const entry of screen.added) {
+            console.log(`   + added    ${formatId(entry)}`);
+        }
+        for (const change of screen.changed) {
+            const details = [
+                change.type ? `type ${change.type.from} → ${change.type.to}` : undefined,
+                change.label ? `label "${change.label.from ?? ''}" → "${change.label.to ?? ''}"` : undefined,
+            ].filter(Boolean).join(', ');
+            console.log(`   * changed  ${change.id}: ${details}`);
+        }
+    }
+
+    console.log('\n' + '='.repeat(80));
+    if (report.staleGetters.length === 0) {
+        console.log('✅ No objects-layer getter references a removed identifier.');
+    } else {
+        console.log(`❌ ${report.staleGetters.length} objects-layer getter(s) reference removed identifiers:\n`);
+        for (const stale of report.staleGetters) {
+            console.log(`   ${stale.file}:${stale.line}  ${stale.getter}`);
+            console.log(`      ${stale.selector}  (was ${stale.removedIds.join(', ')})${stale.renamedTo ? `  → use ${stale.renamedTo}` : ''}`);
+        }
+    }
+
+    if (jsonPath) {
+        fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+        console.log(`\n💾 Report saved to: ${jsonPath}`);
+    }
+    if (report.staleGetters.length > 0) {
+        process.exit(1);
+    }
+}
+
+reportLocatorDrift();
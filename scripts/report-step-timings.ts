@@ -0,0 +1,63 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { readManifests } from '../support/utils/artifacts.js';
+import type { TestTimingReport } from '../support/utils/step-timings.js';
+
+interface MethodStats {
+    name: string;
+    calls: number;
+    totalMs: number;
+    maxMs: number;
+    overBudget: number;
+}
+
+/**
+ * Aggregate the timing files written by reportStepTimings() into the artifact bundles of a run
+ * and print the page methods that cost the most time across the suite.
+ * Usage: npm run timings [-- <limit> [run-id]] (default: 15 rows of the latest run)
+ */
+function reportStepTimings() {
+    const limit = Number(process.argv[2]) || 15;
+    const manifests = readManifests(process.argv[3]);
+
+    const reports: TestTimingReport[] = manifests.flatMap(({ dir, manifest }) => manifest.artifacts
+        .filter((entry) => entry.kind === 'timings')
+        .map((entry) => JSON.parse(fs.readFileSync(path.join(dir, entry.file), 'utf-8'))));
+
+    if (reports.length === 0) {
+        console.error('No timings found in artifacts/runs.');
+        console.error('Run the tests first, timings are written after each test.');
+        process.exit(1);
+    }
+
+    const stats = new Map<string, MethodStats>();
+    for (const report of reports) {
+        for (const step of report.steps) {
+            const name = `${step.page}.${step.method}`;
+            const entry = stats.get(name) ?? { name, calls: 0, totalMs: 0, maxMs: 0, overBudget: 0 };
+            entry.calls++;
+            entry.totalMs += step.durationMs;
+            entry.maxMs = Math.max(entry.maxMs, step.durationMs);
+            entry.overBudget += step.overBudget ? 1 : 0;
+            stats.set(name, entry);
+        }
+    }
+
+    console.log(`\n=== Step timings: ${reports.length} tests ===\n`);
+    console.log('Slowest tests:');
+    for (const report of [...reports].sort((a, b) => b.totalMs - a.totalMs).slice(0, limit)) {
+        console.log(`  ${`${report.totalMs}ms`.padStart(9)}  ${report.test}`);
+    }
+
+    console.log('\nPage methods by total time:');
+    console.log(`  ${'total'.padStart(9)} ${'calls'.padStart(6)} ${'avg'.padStart(8)} ${'max'.padStart(8)}  method`);
+    for (const entry of [...stats.values()].sort((a, b) => b.totalMs - a.totalMs).slice(0, limit)) {
+        const overBudget = entry.overBudget > 0 ? `  ⚠️  ${entry.overBudget}x over budget` : '';
+        console.log(
+            `  ${`${entry.totalMs}ms`.padStart(9)} ${String(entry.calls).padStart(6)} ` +
+            `${`${Math.round(entry.totalMs / entry.calls)}ms`.padStart(8)} ${`${entry.maxMs}ms`.padStart(8)}  ${entry.name}${overBudget}`,
+        );
+    }
+}
+
+reportStepTimings();
@@ -1,9 +1,33 @@
 import { capturePageSourceAndScreenshot } from '../utils/common.js';
+import { finishTestArtifacts, getArtifacts, startTestArtifacts } from '../utils/artifacts.js';
+import { reportStepTimings, resetStepTimings } from '../utils/step-timings.js';
+import { suggestHealing, writeHealingReport } from '../utils/self-healing.js';
+import { startScreenRecording, stopScreenRecording } from '../utils/screen-recording.js';
+import { startTimeline, writeTimeline } from '../utils/step-timeline.js';
+import { attachToReports } from '../utils/report-attachments.js';
+import { recordRunFailure, recordTestResult } from '../utils/flakiness.js';
+import { saveDeviceLogs, startDeviceLogs } from '../utils/device-logs.js';
+import { writeAfterEachApiTraffic, writeApiTraffic } from '../utils/api-traffic.js';
+import { formatScreenMatch, identifyScreenFromFile } from '../utils/screen-fingerprint.js';
 
 /**
  * Test lifecycle hooks for WebdriverIO
  */
 export const testHooks = {
+    /**
+     * Gets executed before a test (in Mocha/Jasmine only)
+     * @param {object}  test             test object
+     * @param {object}  context          scope object the test was executed with
+     */
+    beforeTest: async function (test: any, _context: any) {
+        startTestArtifacts(test);
+        // Steps run by before() hooks are not part of the test's timings
+        resetStepTimings();
+        startTimeline();
+        await startScreenRecording();
+        await startDeviceLogs();
+    },
+
     /**
      * Gets executed after a test (in Mocha/Jasmine only)
      * @param {object}  test             test object
@@ -14,16 +38,58 @@ export const testHooks = {
      * @param {boolean} result.passed    true if test has passed, otherwise false
      * @param {object}  result.retries   information about spec related retries, e.g. `{ attempts: 0, limit: 0 }`
      */
-    afterTest: async function (test: any, _context: any, { passed, error }: any) {
+    afterTest: async function (test: any, _context: any, { passed, error, duration, retries }: any) {
+        // Stop first so the video ends where the test did; keep it only for failed or retried tests
+        const retried = (test?._currentRetry ?? 0) > 0 || (retries?.attempts ?? 0) > 0;
+        await stopScreenRecording(!passed || retried);
+        await saveDeviceLogs();
+        reportStepTimings(test, passed);
+
         if (!passed && error) {
-            const sanitized = (test?.title ?? 'failed').replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-_]/g, '');
-            const prefix = sanitized || `failed-${Date.now()}`;
             console.log('\n========== HEALING MECHANISM: PAGE SOURCE (DOM TREE) ==========');
-            console.log('Test failed. Capturing page source and screenshot to help identify correct locators.');
-            await capturePageSourceAndScreenshot({
-                pageSourceFileName: `page-source-${prefix}.xml`,
-                screenshotFileName: `screenshot-${prefix}.png`,
+            console.log('Test failed. Capturing page source and screenshot, looking for a replacement of the failing locator.');
+            const capture = await capturePageSourceAndScreenshot({
+                pageSourceFileName: 'page-source-failure.xml',
+                screenshotFileName: 'screenshot-failure.png',
+                description: 'Screen after the failure',
             });
+            getArtifacts().write('log', 'error.log', error?.stack ?? String(error), 'Test error');
+            if (capture) {
+                getArtifacts().manifest.screen = formatScreenMatch(identifyScreenFromFile(capture.pageSourcePath));
+                console.log(`📱 Failed on screen: ${getArtifacts().manifest.screen}`);
+                await attachToReports('Page source', capture.pageSourcePath, 'application/xml');
+                await attachToReports('Screenshot', capture.screenshotPath, 'image/png');
+            }
+            suggestHealing(error, capture?.pageSourcePath);
+        }
+
+        writeHealingReport(test);
+        writeTimeline(test, passed);
+        await writeApiTraffic();
+
+        const artifactsDir = getArtifacts().dir;
+        recordTestResult(test, { passed, error, duration }, getArtifacts().manifest.attempt);
+        finishTestArtifacts({ passed, error });
+        if (!passed) {
+            console.log(`📁 Test artifacts: ${artifactsDir}/manifest.json`);
+        }
+    },
+
+    /**
+     * Gets executed after a Mocha hook (before/after, each/all)
+     * @param {object}  test             test object
+     * @param {object}  context          scope object the hook was executed with
+     * @param {Error}   result.error     error object in case the hook fails, otherwise `undefined`
+     * @param {string}  hookName         e.g. `"after each" hook for "should ..."`
+     */
+    afterHook: async function (test: any, _context: any, result: any, hookName: string) {
+        // afterEach runs once afterTest has closed the test's bundle; its API calls still belong to that test
+        if (hookName?.includes('after each')) {
+            writeAfterEachApiTraffic();
+        }
+        // A failing hook fails the run without a test result: the flakiness gate must not pass it as quarantined
+        if (result?.error) {
+            recordRunFailure({ spec: test?.file, source: hookName || 'hook', error: result.error });
         }
     },
 };
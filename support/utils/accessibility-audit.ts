@@ -0,0 +1,127 @@
+import * as path from 'node:path';
+import type { ElementInfo, ScreenElements } from './dom-analysis.js';
+import { isTestId } from './objects-source.js';
+import { formatBounds } from './page-source.js';
+
+/** Smallest touch target recommended by the Human Interface Guidelines, in points */
+export const MIN_TOUCH_TARGET = 44;
+
+/** Buttons and text fields must have an identifier and a label */
+const IDENTIFIED_TYPES = ['XCUIElementTypeButton', 'XCUIElementTypeTextField', 'XCUIElementTypeSecureTextField', 'XCUIElementTypeTextView'];
+/** Controls a user interacts with; they must be accessible and large enough to tap */
+const CONTROL_TYPES = [...IDENTIFIED_TYPES, 'XCUIElementTypeSwitch', 'XCUIElementTypeSlider', 'XCUIElementTypeSegmentedControl'];
+
+/**
+ * - missing-identifier: a button or text field without a testID (its name is missing or only repeats the label)
+ * - missing-label: a button or text field without a label, so VoiceOver has nothing to read
+ * - duplicate-identifier: several elements of the screen share a testID
+ * - not-accessible: a control marked `accessible="false"`
+ * - small-target: a visible control smaller than 44×44 pt
+ */
+export type AuditRule = 'missing-identifier' | 'missing-label' | 'duplicate-identifier' | 'not-accessible' | 'small-target';
+
+export interface AuditIssue {
+    rule: AuditRule;
+    message: string;
+    element: Pick<ElementInfo, 'type' | 'name' | 'label' | 'bounds' | 'indexPath' | 'ancestry'>;
+}
+
+export interface ScreenAudit {
+    screenName: string;
+    file: string;
+    issues: AuditIssue[];
+}
+
+/**
+ * Short element description for a message, e.g. `Button "Save"` or `TextField at 0/0/2`
+ */
+function describe(element: ElementInfo): string {
+    const type = element.type.replace(/^XCUIElementType/, '');
+    const text = element.name ?? element.label;
+    return text ? `${type} "${text}"` : `${type} at ${element.indexPath}`;
+}
+
+function toIssue(rule: AuditRule, message: string, element: ElementInfo): AuditIssue {
+    const { type, name, label, bounds, indexPath, ancestry } = element;
+    return { rule, message, element: { type, name, label, bounds, indexPath, ancestry } };
+}
+
+/**
+ * Audit the elements of one captured screen
+ */
+export function auditScreen(screen: ScreenElements): ScreenAudit {
+    const issues: AuditIssue[] = [];
+
+    for (const element of screen.elements) {
+        const identified = IDENTIFIED_TYPES.includes(element.type);
+        const control = CONTROL_TYPES.includes(element.type);
+
+        // Without a testID, XCUITest reports the label as the name
+        if (identified && (!element.name || element.name === element.label || !isTestId(element.name))) {
+            issues.push(toIssue('missing-identifier', `${describe(element)} has no accessibility identifier (testID)`, element));
+        }
+        if (identified && !element.label) {
+            issues.push(toIssue('missing-label', `${describe(element)} has no accessibility label`, element));
+        }
+        if (control && !element.accessible) {
+            issues.push(toIssue('not-accessible', `${describe(element)} is marked accessible="false"`, element));
+        }
+        if (control && element.visible && element.bounds &&
+            (element.bounds.width < MIN_TOUCH_TARGET || element.bounds.height < MIN_TOUCH_TARGET)) {
+            issues.push(toIssue(
+                'small-target',
+                `${describe(element)} is ${element.bounds.width}×${element.bounds.height} pt, below ${MIN_TOUCH_TARGET}×${MIN_TOUCH_TARGET}`,
+                element,
+            ));
+        }
+    }
+
+    const byIdentifier = new Map<string, ElementInfo[]>();
+    for (const element of screen.elements) {
+        if (element.name && element.name !== element.label && isTestId(element.name)) {
+            byIdentifier.set(element.name, [...(byIdentifier.get(element.name) ?? []), element]);
+        }
+    }
+    for (const [identifier, elements] of byIdentifier) {
+        if (elements.length > 1) {
+            issues.push(toIssue(
+                'duplicate-identifier',
+                `"${identifier}" is used by ${elements.length} elements (${elements.map((element) => element.indexPath).join(', ')})`,
+                elements[0],
+            ));
+        }
+    }
+
+    return { screenName: screen.screenName, file: screen.file, issues };
+}
+
+/**
+ * Markdown report: a summary table, then the issues of each screen
+ */
+export function formatAuditMarkdown(audits: ScreenAudit[]): string {
+    const rules: AuditRule[] = ['missing-identifier', 'missing-label', 'duplicate-identifier', 'not-accessible', 'small-target'];
+    const lines = [
+        '# Accessibility Audit',
+        '',
+        `| Screen | ${rules.join(' | ')} | Total |`,
+        `| --- | ${rules.map(() => '---').join(' | ')} | --- |`,
+        ...audits.map((audit) => {
+            const counts = rules.map((rule) => audit.issues.filter((issue) => issue.rule === rule).length);
+            return `| ${audit.screenName} | ${counts.join(' | ')} | ${audit.issues.length} |`;
+        }),
+    ];
+
+    for (const audit of audits) {
+        lines.push('', `## ${audit.screenName}`, '', `Capture: \`${path.basename(audit.file)}\``, '');
+        if (audit.issues.length === 0) {
+            lines.push('No issues.');
+            continue;
+        }
+        for (const issue of audit.issues) {
+            const container = issue.element.ancestry.length > 0 ? ` in ${issue.element.ancestry.join(' › ')}` : '';
+            const bounds = issue.element.bounds ? ` @ ${formatBounds(issue.element.bounds)}` : '';
+            lines.push(`- **${issue.rule}**: ${issue.message}${container}${bounds}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,189 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import axios, { type AxiosError, type AxiosInstance, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { getArtifacts, getLastTestArtifacts } from './artifacts.js';
+import { attachToReports } from './report-attachments.js';
+
+/**
+ * One HTTP call made through the instrumented axios instance
+ */
+export interface ApiExchange {
+    method: string;
+    url: string;
+    /** HTTP status, undefined when no response was received */
+    status?: number;
+    durationMs: number;
+    startedAt: string;
+    request: { headers: Record<string, unknown>; body?: unknown };
+    response?: { headers: Record<string, unknown>; body?: unknown };
+    /** Network or timeout error, e.g. `connect ECONNREFUSED 127.0.0.1:8080` */
+    error?: string;
+    /** Set for calls made by the spec's afterEach hooks, after the test itself (e.g. cleanup) */
+    afterEach?: true;
+}
+
+/** Header, body and query parameter keys whose values are replaced by [REDACTED] */
+export const REDACTED_KEYS = /authorization|cookie|password|secret|token|api[-_]?key/i;
+/** Longer string bodies are cut, e.g. HTML error pages */
+const MAX_BODY_LENGTH = 10_000;
+
+let exchanges: ApiExchange[] = [];
+let apiAxios: AxiosInstance | undefined;
+const startTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+
+/**
+ * Copy a header map or body, replacing sensitive values
+ */
+export function redact(value: unknown): unknown {
+    if (typeof value === 'string') {
+        // Request bodies are serialized JSON by the time the interceptors see them
+        try {
+            const parsed = JSON.parse(value);
+            if (typeof parsed === 'object' && parsed !== null) {
+                return redact(parsed);
+            }
+        } catch {
+            // not JSON
+        }
+        return value.length > MAX_BODY_LENGTH ? `${value.slice(0, MAX_BODY_LENGTH)}… (${value.length} chars)` : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(redact);
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) =>
+            [key, REDACTED_KEYS.test(key) ? '[REDACTED]' : redact(entry)]));
+    }
+    return value;
+}
+
+/**
+ * Copy a URL, replacing the values of sensitive query parameters and the password of the user info
+ */
+export function redactUrl(url: string): string {
+    return url
+        .replace(/(\/\/[^/:@]+):[^/@]*@/, '$1:[REDACTED]@')
+        .replace(/([?&])([^=&#]+)=([^&#]*)/g, (parameter, separator: string, key: string) => {
+            let name = key;
+            try {
+                name = decodeURIComponent(key);
+            } catch {
+                // keep the raw key
+            }
+            return REDACTED_KEYS.test(name) ? `${separator}${key}=[REDACTED]` : parameter;
+        });
+}
+
+/**
+ * Plain header object of an axios request or response
+ */
+function toHeaderRecord(headers: unknown): Record<string, unknown> {
+    const plain = (headers as { toJSON?: () => Record<string, unknown> })?.toJSON?.() ?? headers ?? {};
+    return redact(plain) as Record<string, unknown>;
+}
+
+/**
+ * Record a finished call, and print it right away when it failed
+ */
+function record(instance: AxiosInstance, config: InternalAxiosRequestConfig, response?: AxiosResponse, error?: AxiosError): void {
+    const started = startTimes.get(config) ?? Date.now();
+    const exchange: ApiExchange = {
+        method: (config.method ?? 'get').toUpperCase(),
+        url: redactUrl(instance.getUri(config)),
+        status: response?.status,
+        durationMs: Date.now() - started,
+        startedAt: new Date(started).toISOString(),
+        request: { headers: toHeaderRecord(config.headers), body: redact(config.data) },
+        response: response ? { headers: toHeaderRecord(response.headers), body: redact(response.data) } : undefined,
+        error: response ? undefined : error?.message,
+    };
+    exchanges.push(exchange);
+
+    if (!response || response.status >= 400) {
+        console.log(`❌ API ${exchange.method} ${exchange.url} → ${exchange.status ?? exchange.error} (${exchange.durationMs}ms)`);
+        if (exchange.response?.body !== undefined) {
+            console.log(`   ${JSON.stringify(exchange.response.body)}`);
+        }
+    }
+}
+
+/**
+ * Add the recording interceptors to an axios instance
+ */
+export function instrumentAxios(instance: AxiosInstance): AxiosInstance {
+    instance.interceptors.request.use((config) => {
+        startTimes.set(config, Date.now());
+        return config;
+    });
+    instance.interceptors.response.use(
+        (response) => {
+            record(instance, response.config, response);
+            return response;
+        },
+        (error: AxiosError) => {
+            if (error.config) {
+                record(instance, error.config, error.response, error);
+            }
+            return Promise.reject(error);
+        },
+    );
+    return instance;
+}
+
+/**
+ * The recorded axios instance to pass to the generated API clients:
+ * `new RoutinesApi(configuration, undefined, getApiAxios())`
+ */
+export function getApiAxios(): AxiosInstance {
+    apiAxios ??= instrumentAxios(axios.create());
+    return apiAxios;
+}
+
+/**
+ * The calls recorded since the previous take, oldest first
+ */
+export function takeApiTraffic(): ApiExchange[] {
+    const taken = exchanges;
+    exchanges = [];
+    return taken;
+}
+
+/**
+ * Write the calls made since the previous test's afterEach hooks (this test's beforeEach hooks included)
+ * to `api-traffic.json` in the test's artifact bundle and attach them to the report. Called from the afterTest hook.
+ * Calls of the afterEach hooks are added by writeAfterEachApiTraffic().
+ * @returns The path of the written file, or undefined when no call was made
+ */
+export async function writeApiTraffic(): Promise<string | undefined> {
+    const traffic = takeApiTraffic();
+    if (traffic.length === 0) {
+        return undefined;
+    }
+
+    const filePath = getArtifacts().write('api-traffic', 'api-traffic.json', JSON.stringify(traffic, null, 2), 'HTTP calls of the API clients');
+    const failed = traffic.filter((exchange) => exchange.status === undefined || exchange.status >= 400).length;
+    console.log(`🌐 API traffic: ${traffic.length} calls${failed > 0 ? `, ${failed} failed` : ''} → ${filePath}`);
+    await attachToReports('API traffic', filePath, 'application/json');
+    return filePath;
+}
+
+/**
+ * Add the calls made by a spec's afterEach hook (e.g. cleanup) to `api-traffic.json` of the test that just
+ * finished, so they are not counted towards the next test. Called from the afterHook hook.
+ * @returns The path of the written file, or undefined when no call was made
+ */
+export function writeAfterEachApiTraffic(): string | undefined {
+    const bundle = getLastTestArtifacts();
+    if (!bundle || exchanges.length === 0) {
+        return undefined;
+    }
+    const traffic = takeApiTraffic().map((exchange): ApiExchange => ({ ...exchange, afterEach: true }));
+
+    const existing = path.join(bundle.dir, 'api-traffic.json');
+    if (!fs.existsSync(existing)) {
+        return bundle.write('api-traffic', 'api-traffic.json', JSON.stringify(traffic, null, 2), 'HTTP calls of the API clients');
+    }
+    const recorded = JSON.parse(fs.readFileSync(existing, 'utf-8')) as ApiExchange[];
+    fs.writeFileSync(existing, JSON.stringify([...recorded, ...traffic], null, 2));
+    return existing;
+}
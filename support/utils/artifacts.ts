@@ -0,0 +1,292 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Kind of a file stored in an artifact bundle
+ */
+export type ArtifactKind = 'screenshot' | 'page-source' | 'log' | 'timings' | 'healing-report' | 'video' | 'report' | 'api-traffic' | 'other';
+
+/**
+ * A file listed in a bundle's manifest
+ */
+export interface ArtifactEntry {
+    kind: ArtifactKind;
+    /** Path relative to the bundle folder */
+    file: string;
+    description?: string;
+    createdAt: string;
+}
+
+/**
+ * Content of the `manifest.json` of a test's artifact bundle
+ */
+export interface ArtifactManifest {
+    runId: string;
+    /** Spec file, relative to the project root */
+    spec?: string;
+    suite?: string;
+    title: string;
+    /** 0 for the first attempt, incremented by Mocha retries and spec file retries */
+    attempt: number;
+    startedAt: string;
+    finishedAt?: string;
+    passed?: boolean;
+    error?: string;
+    /** Screen the failure capture shows, e.g. `RoutineDetail (~routine-detail-screen)` (see screen-fingerprint.ts) */
+    screen?: string;
+    /** Selectors healed during the test (`broken → replacement`): the test only passed through healing */
+    healed?: string[];
+    artifacts: ArtifactEntry[];
+}
+
+/**
+ * Test fields passed to the WebdriverIO test hooks
+ */
+export interface ArtifactTest {
+    title?: string;
+    parent?: string;
+    file?: string;
+    /** Mocha retry of the test: 0 on its first run */
+    _currentRetry?: number;
+    /** Mocha retries allowed for the test, -1 when not set */
+    _retries?: number;
+}
+
+export const ARTIFACTS_DIR = path.join(process.cwd(), 'artifacts');
+export const RUNS_DIR = path.join(ARTIFACTS_DIR, 'runs');
+
+/**
+ * Make a title usable as a file or folder name
+ */
+export function sanitizeFileName(value: string): string {
+    return value.replace(/\s+/g, '-').replace(/[^a-zA-Z0-9-_.]/g, '').slice(0, 80);
+}
+
+/**
+ * Id of the current run: ARTIFACTS_RUN_ID (set once by the launcher and inherited by workers),
+ * or a timestamp
+ */
+export function getRunId(): string {
+    process.env.ARTIFACTS_RUN_ID ??= new Date().toISOString().replace(/[:.]/g, '-');
+    return process.env.ARTIFACTS_RUN_ID;
+}
+
+/**
+ * Folder of one test attempt (or of the session outside tests), with its manifest
+ */
+export class ArtifactBundle {
+    public readonly dir: string;
+    public readonly manifest: ArtifactManifest;
+
+    constructor(dir: string, manifest: ArtifactManifest) {
+        this.dir = dir;
+        this.manifest = manifest;
+        fs.mkdirSync(dir, { recursive: true });
+        this.save();
+    }
+
+    /**
+     * Write a file into the bundle and list it in the manifest.
+     * An existing file with the same name is kept; the new one gets a numeric suffix.
+     * @returns The absolute path of the written file
+     */
+    public write(kind: ArtifactKind, fileName: string, data: string | Buffer, description?: string): string {
+        const filePath = this.reserve(kind, fileName, description);
+        fs.writeFileSync(filePath, data);
+        return filePath;
+    }
+
+    /**
+     * List a file in the manifest that is written by someone else (e.g. a recording saved by the driver)
+     * @returns The absolute path the file must be written to
+     */
+    public reserve(kind: ArtifactKind, fileName: string, description?: string): string {
+        const { name, ext } = path.parse(sanitizeFileName(fileName));
+        let file = `${name}${ext}`;
+        for (let i = 2; fs.existsSync(path.join(this.dir, file)) || this.has(file); i++) {
+            file = `${name}-${i}${ext}`;
+        }
+        this.manifest.artifacts.push({ kind, file, description, createdAt: new Date().toISOString() });
+        this.save();
+        return path.join(this.dir, file);
+    }
+
+    /**
+     * Delete a file of the bundle and drop it from the manifest
+     */
+    public remove(filePath: string): void {
+        const file = path.relative(this.dir, filePath);
+        fs.rmSync(filePath, { force: true });
+        this.manifest.artifacts = this.manifest.artifacts.filter((entry) => entry.file !== file);
+        this.save();
+    }
+
+    /**
+     * Record the test result in the manifest
+     */
+    public finish(result: { passed?: boolean; error?: unknown }): void {
+        this.manifest.finishedAt = new Date().toISOString();
+        this.manifest.passed = result.passed;
+        if (result.error) {
+            this.manifest.error = result.error instanceof Error ? result.error.message : String(result.error);
+        }
+        this.save();
+    }
+
+    private has(file: string): boolean {
+        return this.manifest.artifacts.some((entry) => entry.file === file);
+    }
+
+    private save(): void {
+        fs.writeFileSync(path.join(this.dir, 'manifest.json'), JSON.stringify(this.manifest, null, 2));
+    }
+}
+
+let testBundle: ArtifactBundle | undefined;
+let sessionBundle: ArtifactBundle | undefined;
+/** Bundle of the test that finished last, still open to its afterEach hooks */
+let lastTestBundle: ArtifactBundle | undefined;
+/** Spec file retry of each spec run by this worker: 0 on the spec's first run in the run */
+const specRetries = new Map<string, number>();
+
+/**
+ * Spec file retry of a spec folder, counted in its `.spec-runs` file on the first test the worker runs from it
+ */
+function getSpecRetry(specDir: string): number {
+    let retry = specRetries.get(specDir);
+    if (retry === undefined) {
+        const counter = path.join(specDir, '.spec-runs');
+        retry = fs.existsSync(counter) ? Number(fs.readFileSync(counter, 'utf-8')) || 0 : 0;
+        fs.mkdirSync(specDir, { recursive: true });
+        fs.writeFileSync(counter, String(retry + 1));
+        specRetries.set(specDir, retry);
+    }
+    return retry;
+}
+
+/**
+ * Folder of a test: its sanitized title, with a numeric suffix when another test of the suite
+ * has the same sanitized title (e.g. `adds a set` and `adds a set!`). Attempts of the test share it.
+ */
+function getTestDir(suiteDir: string, suite: string | undefined, title: string): string {
+    const base = path.join(suiteDir, sanitizeFileName(title) || 'test');
+    for (let i = 1; ; i++) {
+        const dir = i === 1 ? base : `${base}-${i}`;
+        const attempt = fs.existsSync(dir) ? fs.readdirSync(dir).find((entry) => entry.startsWith('attempt-')) : undefined;
+        const manifestPath = attempt ? path.join(dir, attempt, 'manifest.json') : undefined;
+        if (!manifestPath || !fs.existsSync(manifestPath)) {
+            return dir;
+        }
+        const owner = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as ArtifactManifest;
+        if (owner.title === title && owner.suite === suite) {
+            return dir;
+        }
+    }
+}
+
+/**
+ * Create the bundle of a test attempt: artifacts/runs/<run>/<spec>/<suite>/<title>/attempt-<n>
+ * and make it the current bundle. Called from the beforeTest hook.
+ * The attempt counts Mocha retries and spec file retries: spec retry r runs Mocha attempts
+ * r × (retries + 1) onwards.
+ */
+export function startTestArtifacts(test: ArtifactTest): ArtifactBundle {
+    const title = test.title ?? 'unknown-test';
+    const spec = test.file ? path.relative(process.cwd(), test.file) : undefined;
+    const specDir = path.join(
+        RUNS_DIR,
+        getRunId(),
+        sanitizeFileName(spec ? path.basename(spec).replace(/\.spec\.ts$/, '') : 'unknown-spec'),
+    );
+    const testDir = getTestDir(path.join(specDir, sanitizeFileName(test.parent ?? 'root')), test.parent, title);
+    const attempt = getSpecRetry(specDir) * (Math.max(test._retries ?? 0, 0) + 1) + (test._currentRetry ?? 0);
+
+    testBundle = new ArtifactBundle(path.join(testDir, `attempt-${attempt}`), {
+        runId: getRunId(),
+        spec,
+        suite: test.parent,
+        title,
+        attempt,
+        startedAt: new Date().toISOString(),
+        artifacts: [],
+    });
+    return testBundle;
+}
+
+/**
+ * Record the result of the current test in its manifest and end the bundle. Called from the afterTest hook.
+ * @returns The manifest, or undefined when no test bundle was started
+ */
+export function finishTestArtifacts(result: { passed?: boolean; error?: unknown }): ArtifactManifest | undefined {
+    const bundle = testBundle;
+    testBundle = undefined;
+    lastTestBundle = bundle;
+    bundle?.finish(result);
+    return bundle?.manifest;
+}
+
+/**
+ * The bundle of the test that finished last, for files produced by the spec's afterEach hooks,
+ * which run after the afterTest hook has ended the bundle
+ */
+export function getLastTestArtifacts(): ArtifactBundle | undefined {
+    return lastTestBundle;
+}
+
+/**
+ * The bundle of the running test, or the session bundle (artifacts/runs/<run>/session-<pid>)
+ * for captures made outside tests, e.g. in before() hooks
+ */
+export function getArtifacts(): ArtifactBundle {
+    if (testBundle) {
+        return testBundle;
+    }
+    sessionBundle ??= new ArtifactBundle(path.join(RUNS_DIR, getRunId(), `session-${process.pid}`), {
+        runId: getRunId(),
+        title: 'session',
+        attempt: 0,
+        startedAt: new Date().toISOString(),
+        artifacts: [],
+    });
+    return sessionBundle;
+}
+
+/**
+ * Files with the given extension below a folder, most recently modified first
+ * @param extension e.g. '.xml'
+ * @param root Folder to search (default: artifacts/runs)
+ */
+export function findArtifactFiles(extension: string, root: string = RUNS_DIR): string[] {
+    if (!fs.existsSync(root)) {
+        return [];
+    }
+    const files = fs.readdirSync(root, { recursive: true, encoding: 'utf-8' })
+        .filter((file) => file.endsWith(extension))
+        .map((file) => path.join(root, file));
+    return files.sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+}
+
+/**
+ * Read every manifest of a run
+ * @param runId Run to read (default: the most recent run in artifacts/runs)
+ */
+export function readManifests(runId?: string): Array<{ dir: string; manifest: ArtifactManifest }> {
+    const run = runId ?? (fs.existsSync(RUNS_DIR) ? fs.readdirSync(RUNS_DIR).sort().pop() : undefined);
+    if (!run || !fs.existsSync(path.join(RUNS_DIR, run))) {
+        return [];
+    }
+
+    const manifests: Array<{ dir: string; manifest: ArtifactManifest }> = [];
+    const walk = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                walk(entryPath);
+            } else if (entry.name === 'manifest.json') {
+                manifests.push({ dir, manifest: JSON.parse(fs.readFileSync(entryPath, 'utf-8')) });
+            }
+        }
+    };
+    walk(path.join(RUNS_DIR, run));
+    return manifests;
+}
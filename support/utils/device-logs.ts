@@ -0,0 +1,148 @@
+import { browser } from '@wdio/globals';
+import { getArtifacts } from './artifacts.js';
+
+/**
+ * A log line of the device or the Appium server
+ */
+export interface DeviceLogEntry {
+    /** Epoch milliseconds */
+    timestamp: number;
+    level?: string;
+    message: string;
+}
+
+/**
+ * Where log lines come from. Each read returns the lines logged since the previous read.
+ */
+export interface LogSource {
+    /** Shown in warnings, e.g. 'iOS syslog' */
+    name: string;
+    /** File written to the test's artifact bundle */
+    fileName: string;
+    /** Keep only the lines of the app under test (see filterAppLogs) */
+    appOnly: boolean;
+    read(): Promise<DeviceLogEntry[]>;
+}
+
+/**
+ * Which lines of a log belong to the app under test
+ */
+export interface AppLogFilter {
+    bundleId: string;
+    /** Process name of the app in the syslog, e.g. `XQFitness[1234:5678]` */
+    processName: string;
+}
+
+export const APP_LOG_FILTER: AppLogFilter = { bundleId: 'com.xqfitness.app', processName: 'XQFitness' };
+
+let activeSources: LogSource[] | undefined;
+let windowStart: number | undefined;
+
+/**
+ * Whether device logs are collected; disable with DEVICE_LOGS=false
+ */
+export function isDeviceLogsEnabled(): boolean {
+    return process.env.DEVICE_LOGS !== 'false';
+}
+
+/**
+ * Log source reading a driver log type with browser.getLogs(), e.g. 'syslog' or 'server'
+ * (the Appium server log needs Appium started with `--allow-insecure get_server_logs`)
+ */
+export function createDriverLogSource(logType: string, name: string, fileName: string, appOnly: boolean): LogSource {
+    return {
+        name,
+        fileName,
+        appOnly,
+        read: async () => {
+            const entries = await browser.getLogs(logType) as Array<{ timestamp?: number; level?: string; message?: string }>;
+            return entries.map((entry) => ({
+                timestamp: entry.timestamp ?? Date.now(),
+                level: entry.level,
+                message: entry.message ?? '',
+            }));
+        },
+    };
+}
+
+/**
+ * The iOS syslog, filtered to the app, and the Appium server log
+ */
+export function getDefaultLogSources(): LogSource[] {
+    return [
+        createDriverLogSource('syslog', 'iOS syslog', 'syslog.log', true),
+        createDriverLogSource('server', 'Appium server log', 'appium.log', false),
+    ];
+}
+
+/**
+ * Keep the lines logged by the app: its process name or its bundle id (subsystem) appear in the line
+ */
+export function filterAppLogs(entries: DeviceLogEntry[], filter: AppLogFilter = APP_LOG_FILTER): DeviceLogEntry[] {
+    const processPattern = new RegExp(`\\b${filter.processName}\\[\\d+`);
+    return entries.filter((entry) => entry.message.includes(filter.bundleId) || processPattern.test(entry.message));
+}
+
+/**
+ * Render log entries as text, one `<ISO time> [level] message` line each
+ */
+export function formatLogEntries(entries: DeviceLogEntry[]): string {
+    return entries
+        .map((entry) => `${new Date(entry.timestamp).toISOString()} ${entry.level ? `[${entry.level}] ` : ''}${entry.message}`)
+        .join('\n');
+}
+
+/**
+ * Start the log window of a test: lines logged so far are read and dropped. Sources that cannot be read
+ * (e.g. the server log without the insecure feature) are skipped for the rest of the session.
+ * Called from the beforeTest hook.
+ * @param sources Log sources (default: getDefaultLogSources(), chosen once per session)
+ */
+export async function startDeviceLogs(sources?: LogSource[]): Promise<void> {
+    if (!isDeviceLogsEnabled()) {
+        return;
+    }
+    if (sources || !activeSources) {
+        activeSources = sources ?? getDefaultLogSources();
+    }
+
+    const available: LogSource[] = [];
+    for (const source of activeSources) {
+        try {
+            await source.read();
+            available.push(source);
+        } catch (error) {
+            console.log(`⚠️  ${source.name} is not available, not collecting it: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    activeSources = available;
+    windowStart = Date.now();
+}
+
+/**
+ * Save the lines logged during the test window to the test's artifact bundle
+ * (syslog.log filtered to the app, appium.log). Called from the afterTest hook.
+ * @returns The paths of the written files
+ */
+export async function saveDeviceLogs(filter: AppLogFilter = APP_LOG_FILTER): Promise<string[]> {
+    if (windowStart === undefined) {
+        return [];
+    }
+    const start = windowStart;
+    const end = Date.now();
+    windowStart = undefined;
+
+    const files: string[] = [];
+    for (const source of activeSources ?? []) {
+        try {
+            const inWindow = (await source.read()).filter((entry) => entry.timestamp >= start && entry.timestamp <= end);
+            const entries = source.appOnly ? filterAppLogs(inWindow, filter) : inWindow;
+            if (entries.length > 0) {
+                files.push(getArtifacts().write('log', source.fileName, formatLogEntries(entries), `${source.name} during the test`));
+            }
+        } catch (error) {
+            console.log(`⚠️  Could not save ${source.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return files;
+}
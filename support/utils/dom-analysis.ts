@@ -0,0 +1,98 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { RUNS_DIR } from './artifacts.js';
+import {
+    flattenElements,
+    formatIndexPath,
+    getCaptureScreenName,
+    getNamedAncestry,
+    parsePageSource,
+    type Bounds,
+    type PageElement,
+} from './page-source.js';
+
+/**
+ * Element of a captured screen, as reported by the DOM analysis scripts
+ */
+export interface ElementInfo {
+    type: string;
+    name?: string;
+    label?: string;
+    value?: string;
+    visible: boolean;
+    accessible: boolean;
+    enabled: boolean;
+    bounds?: Bounds;
+    /** Child positions from the root, e.g. `0/0/2` */
+    indexPath: string;
+    /** Accessibility ids of the enclosing elements, outermost first, e.g. `['workout-day-1']` */
+    ancestry: string[];
+}
+
+export interface ScreenElements {
+    screenName: string;
+    file: string;
+    elements: ElementInfo[];
+}
+
+/**
+ * Whether an element is listed in the report: it has a name or label, or is an interactive or text element
+ */
+function isReportedElement(element: PageElement): boolean {
+    return Boolean(element.name || element.label) || element.type.includes('Button') || element.type.includes('TextField') ||
+        element.type.includes('Switch') || element.type.includes('StaticText');
+}
+
+/**
+ * Report entry of an element, with its place in the hierarchy
+ */
+function toElementInfo(element: PageElement): ElementInfo {
+    return {
+        type: element.type,
+        name: element.name,
+        label: element.label,
+        value: element.value,
+        visible: element.visible,
+        accessible: element.accessible,
+        enabled: element.enabled,
+        bounds: element.bounds,
+        indexPath: formatIndexPath(element),
+        ancestry: getNamedAncestry(element),
+    };
+}
+
+/**
+ * Parse XML and extract the reported elements, in document order
+ */
+export function extractElements(xmlContent: string): ElementInfo[] {
+    return flattenElements(parsePageSource(xmlContent))
+        .filter(isReportedElement)
+        .map(toElementInfo);
+}
+
+/**
+ * Analyze a single DOM tree file
+ */
+export function analyzeDOMFile(filePath: string): ScreenElements {
+    const xmlContent = fs.readFileSync(filePath, 'utf-8');
+    return {
+        screenName: getCaptureScreenName(filePath),
+        file: filePath,
+        elements: extractElements(xmlContent),
+    };
+}
+
+/**
+ * Folder of DOM captures to analyze: the given folder, dom-captures/ when it exists, or the latest run in artifacts/runs
+ */
+export function getCaptureSourceDir(dir?: string): string | undefined {
+    if (dir) {
+        return path.resolve(dir);
+    }
+    const domCapturesDir = path.join(process.cwd(), 'dom-captures');
+    if (fs.existsSync(domCapturesDir)) {
+        return domCapturesDir;
+    }
+    const latestRun = fs.existsSync(RUNS_DIR) ? fs.readdirSync(RUNS_DIR).sort().pop() : undefined;
+    return latestRun ? path.join(RUNS_DIR, latestRun) : undefined;
+}
@@ -0,0 +1,296 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ARTIFACTS_DIR, getRunId, type ArtifactTest } from './artifacts.js';
+
+/**
+ * One test attempt, as appended to the flakiness history
+ */
+export interface TestResultRecord {
+    runId: string;
+    /** `<suite> › <title>`, the key used by the quarantine list */
+    test: string;
+    /** Spec file, relative to the project root */
+    spec?: string;
+    /** 0 for the first attempt, incremented by Mocha retries and spec file retries */
+    attempt: number;
+    passed: boolean;
+    durationMs?: number;
+    error?: string;
+    quarantined: boolean;
+    finishedAt: string;
+}
+
+/**
+ * A failure of a run outside the recorded tests: a failing Mocha hook, or a worker that failed
+ * without a failed test (e.g. the session did not start). Quarantine never covers it.
+ */
+export interface RunFailureRecord {
+    runId: string;
+    /** Spec file, relative to the project root */
+    spec?: string;
+    /** Where the run failed, e.g. `"before each" hook` or `worker 0-0` */
+    source: string;
+    error?: string;
+    finishedAt: string;
+}
+
+/**
+ * A test the team has quarantined: it still runs, but its failures don't fail the build
+ */
+export interface QuarantineEntry {
+    /** Test id (`<suite> › <title>`), or a suite title to quarantine the whole suite */
+    test: string;
+    reason: string;
+    owner?: string;
+    /** Date the test was quarantined, YYYY-MM-DD */
+    since?: string;
+}
+
+/**
+ * Final outcome of a test in one run: 'flaky' when it failed and then passed on a retry
+ */
+export type RunOutcome = 'passed' | 'failed' | 'flaky';
+
+/**
+ * Flakiness of a test over the recent runs
+ */
+export interface FlakinessScore {
+    test: string;
+    runs: number;
+    failed: number;
+    flaky: number;
+    /** Times the outcome changed between passed and failed from one run to the next */
+    flips: number;
+    /** (flaky runs + flips) / runs, from 0 (stable) to 1 */
+    score: number;
+    lastOutcome: RunOutcome;
+    quarantined?: QuarantineEntry;
+}
+
+/** Append-only history, one JSON record per line; FLAKINESS_HISTORY moves it out of artifacts/ */
+export const HISTORY_FILE = process.env.FLAKINESS_HISTORY ?? path.join(ARTIFACTS_DIR, 'flakiness', 'history.jsonl');
+/** Failures outside the recorded tests, one JSON record per line next to the history */
+export const RUN_FAILURES_FILE = path.join(path.dirname(HISTORY_FILE), 'run-failures.jsonl');
+/** Quarantine list, maintained in git by the team */
+export const QUARANTINE_FILE = path.join(process.cwd(), 'config', 'quarantine.json');
+
+/**
+ * Id of a test in the history and the quarantine list: `<suite> › <title>`
+ */
+export function getTestId(test: ArtifactTest): string {
+    const title = test.title ?? 'unknown-test';
+    return test.parent ? `${test.parent} › ${title}` : title;
+}
+
+/**
+ * Read the quarantine list
+ * @returns The entries, or an empty list when the file does not exist
+ */
+export function readQuarantine(file: string = QUARANTINE_FILE): QuarantineEntry[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Save the quarantine list
+ */
+export function writeQuarantine(entries: QuarantineEntry[], file: string = QUARANTINE_FILE): void {
+    fs.writeFileSync(file, `${JSON.stringify(entries, null, 2)}\n`);
+}
+
+/**
+ * The quarantine entry covering a test, either by its id or by its suite title
+ */
+export function findQuarantineEntry(testId: string, entries: QuarantineEntry[] = readQuarantine()): QuarantineEntry | undefined {
+    return entries.find((entry) => testId === entry.test || testId.startsWith(`${entry.test} › `));
+}
+
+/**
+ * Append the result of a test attempt to the history and report quarantined failures.
+ * Called from the afterTest hook.
+ * @param attempt Attempt number of the test (see the artifact manifest)
+ */
+export function recordTestResult(
+    test: ArtifactTest,
+    result: { passed: boolean; error?: unknown; duration?: number },
+    attempt: number,
+): TestResultRecord {
+    const testId = getTestId(test);
+    const quarantine = findQuarantineEntry(testId);
+    const record: TestResultRecord = {
+        runId: getRunId(),
+        test: testId,
+        spec: test.file ? path.relative(process.cwd(), test.file) : undefined,
+        attempt,
+        passed: result.passed,
+        durationMs: result.duration,
+        error: result.error ? (result.error instanceof Error ? result.error.message : String(result.error)).split('\n')[0] : undefined,
+        quarantined: quarantine !== undefined,
+        finishedAt: new Date().toISOString(),
+    };
+
+    // Workers append concurrently, a single line per write keeps records whole
+    fs.mkdirSync(path.dirname(HISTORY_FILE), { recursive: true });
+    fs.appendFileSync(HISTORY_FILE, `${JSON.stringify(record)}\n`);
+
+    if (quarantine && !result.passed) {
+        console.log(`🚧 Quarantined test failed: ${testId} (${quarantine.reason}). It does not fail the build.`);
+    }
+    return record;
+}
+
+/**
+ * Read the history; unreadable lines are skipped
+ */
+export function readHistory(file: string = HISTORY_FILE): TestResultRecord[] {
+    return readJsonLines<TestResultRecord>(file);
+}
+
+/**
+ * Append a failure outside the recorded tests. Called from the afterHook and onWorkerEnd hooks.
+ */
+export function recordRunFailure(failure: { spec?: string; source: string; error?: unknown }): RunFailureRecord {
+    const record: RunFailureRecord = {
+        runId: getRunId(),
+        spec: failure.spec ? path.relative(process.cwd(), failure.spec.replace(/^file:\/\//, '')) : undefined,
+        source: failure.source,
+        error: failure.error ? (failure.error instanceof Error ? failure.error.message : String(failure.error)).split('\n')[0] : undefined,
+        finishedAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(path.dirname(RUN_FAILURES_FILE), { recursive: true });
+    fs.appendFileSync(RUN_FAILURES_FILE, `${JSON.stringify(record)}\n`);
+    console.log(`❌ ${record.source} failed${record.spec ? ` in ${record.spec}` : ''}: quarantine does not cover it.`);
+    return record;
+}
+
+/**
+ * Failures outside the recorded tests of a run
+ */
+export function readRunFailures(runId: string, file: string = RUN_FAILURES_FILE): RunFailureRecord[] {
+    return readJsonLines<RunFailureRecord>(file).filter((record) => record.runId === runId);
+}
+
+/** Start time of each running worker, by cid (launcher process) */
+const workerStarts = new Map<string, string>();
+
+/**
+ * Remember when a worker started. Called from the onWorkerStart hook.
+ */
+export function markWorkerStart(cid: string): void {
+    workerStarts.set(cid, new Date().toISOString());
+}
+
+/**
+ * Record a worker that failed without a failed test or hook in the history, e.g. when its session did not start.
+ * Called from the onWorkerEnd hook.
+ * @param specs Spec files of the worker (paths or file URLs)
+ */
+export function recordWorkerFailure(cid: string, exitCode: number, specs: string[]): void {
+    if (exitCode === 0) {
+        return;
+    }
+    const since = workerStarts.get(cid) ?? '';
+    const files = specs.map((spec) => path.relative(process.cwd(), spec.replace(/^file:\/\//, '')));
+    const isWorkerRecord = (record: { runId: string; spec?: string; finishedAt: string }) =>
+        record.runId === getRunId() && record.finishedAt >= since && record.spec !== undefined && files.includes(record.spec);
+
+    const failedTest = readHistory().some((record) => isWorkerRecord(record) && !record.passed);
+    if (!failedTest && !readRunFailures(getRunId()).some(isWorkerRecord)) {
+        recordRunFailure({ spec: specs[0], source: `worker ${cid}`, error: `exited with code ${exitCode} without a failed test` });
+    }
+}
+
+/**
+ * Records of a JSON lines file; unreadable lines are skipped
+ */
+function readJsonLines<T>(file: string): T[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    return fs.readFileSync(file, 'utf-8').split('\n').flatMap((line) => {
+        try {
+            return line.trim() ? [JSON.parse(line) as T] : [];
+        } catch {
+            return [];
+        }
+    });
+}
+
+/**
+ * Final outcome of each test of each run, in history order
+ * @returns Outcomes by test id, oldest run first
+ */
+export function getRunOutcomes(history: TestResultRecord[]): Map<string, Array<{ runId: string; outcome: RunOutcome; record: TestResultRecord }>> {
+    const attemptsByRun = new Map<string, TestResultRecord[]>();
+    for (const record of history) {
+        const key = `${record.test}\n${record.runId}`;
+        attemptsByRun.set(key, [...(attemptsByRun.get(key) ?? []), record]);
+    }
+
+    const outcomes = new Map<string, Array<{ runId: string; outcome: RunOutcome; record: TestResultRecord }>>();
+    for (const attempts of attemptsByRun.values()) {
+        const last = attempts[attempts.length - 1];
+        const outcome: RunOutcome = !last.passed ? 'failed' : attempts.some((attempt) => !attempt.passed) ? 'flaky' : 'passed';
+        outcomes.set(last.test, [...(outcomes.get(last.test) ?? []), { runId: last.runId, outcome, record: last }]);
+    }
+    return outcomes;
+}
+
+/**
+ * Score the flakiness of every test over its most recent runs, flakiest first
+ * @param lastRuns Number of recent runs of each test to consider
+ */
+export function computeFlakiness(
+    history: TestResultRecord[],
+    lastRuns = 20,
+    quarantine: QuarantineEntry[] = readQuarantine(),
+): FlakinessScore[] {
+    const scores: FlakinessScore[] = [];
+    for (const [test, allRuns] of getRunOutcomes(history)) {
+        const runs = allRuns.slice(-lastRuns);
+        let flips = 0;
+        for (let i = 1; i < runs.length; i++) {
+            if ((runs[i].outcome === 'failed') !== (runs[i - 1].outcome === 'failed')) {
+                flips++;
+            }
+        }
+        const failed = runs.filter((run) => run.outcome === 'failed').length;
+        const flaky = runs.filter((run) => run.outcome === 'flaky').length;
+        scores.push({
+            test,
+            runs: runs.length,
+            failed,
+            flaky,
+            flips,
+            score: Math.round(Math.min(1, (flaky + flips) / runs.length) * 100) / 100,
+            lastOutcome: runs[runs.length - 1].outcome,
+            quarantined: findQuarantineEntry(test, quarantine),
+        });
+    }
+    return scores.sort((a, b) => b.score - a.score || b.failed - a.failed || a.test.localeCompare(b.test));
+}
+
+/**
+ * Final results of the quarantined tests of a run
+ */
+export function getQuarantinedResults(runId: string, history: TestResultRecord[] = readHistory()): Array<{ test: string; outcome: RunOutcome; error?: string }> {
+    return [...getRunOutcomes(history.filter((record) => record.runId === runId && record.quarantined)).values()]
+        .map((runs) => runs[runs.length - 1])
+        .map(({ record, outcome }) => ({ test: record.test, outcome, error: record.error }));
+}
+
+/**
+ * Print the quarantined tests of a run, apart from the regular results. Called from the onComplete hook.
+ */
+export function reportQuarantinedTests(runId: string = getRunId()): void {
+    const results = getQuarantinedResults(runId);
+    if (results.length === 0) {
+        return;
+    }
+    console.log(`\n🚧 Quarantined tests (${results.length}), not counted towards the build result by \`npm run test:ci\`:`);
+    for (const result of results) {
+        console.log(`   ${result.outcome.padEnd(7)} ${result.test}${result.error ? `\n           ${result.error}` : ''}`);
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * A single queued call of a fluent chain, as reported in errors
+ */
+export interface FluentStepRecord {
+    /** 1-based position of the step in the chain */
+    index: number;
+    /** Class name of the page object the step ran on */
+    page: string;
+    /** Name of the page method */
+    method: string;
+    /** Serialized call arguments */
+    args: string[];
+    /** Elapsed time of the step in ms, set once the step has run (or failed) */
+    durationMs?: number;
+    /** Name of the chain fragment (see defineChain()) the step was queued by, if any */
+    fragment?: string;
+}
+
+/**
+ * Serialize a step argument for error reports and logs
+ * @param arg The argument value passed to the page method
+ * @returns A short, readable representation of the argument
+ */
+export function serializeArg(arg: unknown): string {
+    if (typeof arg === 'function') {
+        return `[Function${arg.name ? ` ${arg.name}` : ''}]`;
+    }
+    if (typeof arg === 'string') {
+        return JSON.stringify(arg);
+    }
+    if (arg === undefined || typeof arg === 'number' || typeof arg === 'boolean' || typeof arg === 'bigint') {
+        return String(arg);
+    }
+    try {
+        const json = JSON.stringify(arg);
+        return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+    } catch {
+        return Object.prototype.toString.call(arg);
+    }
+}
+
+/**
+ * Format a step as `Page.method(arg1, arg2)`, prefixed with `[fragment]` for steps queued by a fragment
+ */
+export function formatStep(step: FluentStepRecord): string {
+    const fragment = step.fragment ? `[${step.fragment}] ` : '';
+    return `${fragment}${step.page}.${step.method}(${step.args.join(', ')})`;
+}
+
+/**
+ * Error thrown by `execute()` of a fluent proxy when one of the queued steps fails.
+ * Carries which step broke, what ran before it and the original error as `cause`.
+ */
+export class FluentChainError extends Error {
+    public readonly pageName: string;
+    public readonly stepIndex: number;
+    public readonly methodName: string;
+    public readonly args: string[];
+    public readonly steps: FluentStepRecord[];
+
+    /**
+     * @param steps All steps of the chain, with durations for the completed ones and the failing one
+     * @param failedIndex 0-based index of the failing step in `steps`
+     * @param cause The original error thrown by the page method
+     */
+    constructor(steps: FluentStepRecord[], failedIndex: number, cause: unknown) {
+        const failed = steps[failedIndex];
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(
+            `Fluent chain failed at step ${failed.index}/${steps.length} ${formatStep(failed)}: ${reason.split('\n')[0]}\n` +
+            FluentChainError.formatChain(steps, failedIndex),
+            { cause },
+        );
+        this.name = 'FluentChainError';
+        this.pageName = failed.page;
+        this.stepIndex = failed.index;
+        this.methodName = failed.method;
+        this.args = failed.args;
+        this.steps = steps;
+    }
+
+    /**
+     * Steps that ran successfully before the failure, with their elapsed time
+     */
+    public get completedSteps(): FluentStepRecord[] {
+        return this.steps.slice(0, this.stepIndex - 1);
+    }
+
+    /**
+     * Render the whole chain with the failing step marked
+     */
+    public static formatChain(steps: FluentStepRecord[], failedIndex: number): string {
+        return steps.map((step, i) => {
+            const timing = step.durationMs !== undefined ? ` ${step.durationMs}ms` : '';
+            if (i < failedIndex) {
+                return `  ✓ ${step.index}. ${formatStep(step)}${timing}`;
+            }
+            if (i === failedIndex) {
+                return `  ✗ ${step.index}. ${formatStep(step)}${timing}  <-- failed`;
+            }
+            return `  - ${step.index}. ${formatStep(step)} (not run)`;
+        }).join('\n');
+    }
+}
+
+/**
+ * A verify* step that failed while the chain ran in soft-assertion mode
+ */
+export interface SoftAssertionFailure {
+    step: FluentStepRecord;
+    error: unknown;
+    /** Screenshot taken right after the failure, if the capture succeeded */
+    screenshotPath?: string;
+}
+
+/**
+ * Error thrown by `execute()` at the end of a chain run with `softly()` when one or more
+ * verify* steps failed. Lists every failed expectation instead of only the first one.
+ */
+export class SoftAssertionError extends Error {
+    public readonly failures: SoftAssertionFailure[];
+
+    /**
+     * @param failures The recorded failures, in chain order
+     * @param verifyCount Number of verify* steps that ran in soft mode
+     */
+    constructor(failures: SoftAssertionFailure[], verifyCount: number) {
+        const lines = failures.map(({ step, error, screenshotPath }) => {
+            const reason = error instanceof Error ? error.message : String(error);
+            const screenshot = screenshotPath ? `\n       screenshot: ${screenshotPath}` : '';
+            return `  ✗ ${step.index}. ${formatStep(step)}: ${reason.split('\n')[0]}${screenshot}`;
+        });
+        super(`${failures.length} of ${verifyCount} soft assertion(s) failed:\n${lines.join('\n')}`);
+        this.name = 'SoftAssertionError';
+        this.failures = failures;
+    }
+}
@@ -0,0 +1,84 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * One page method call of a recorded plan
+ */
+export interface FluentPlanStep {
+    /** Index of the chain (execute() call) the step belongs to, starting at 0 */
+    chain: number;
+    /** Class name of the page object the step runs on */
+    page: string;
+    /** Page method name, or 'capture' for capture steps (args holds the capture key) */
+    method: string;
+    /** Call arguments; must be JSON serializable to be replayed */
+    args: unknown[];
+    /** Set when the step ran as a soft assertion */
+    soft?: boolean;
+    /** Name of the chain fragment that queued the step, if any */
+    fragment?: string;
+    /** Retry policy of the step, without its recovery action */
+    retry?: { attempts: number; backoff?: number | { initialMs: number; factor?: number; maxMs?: number }; label?: string };
+}
+
+/**
+ * Steps recorded by fluent proxies in dry-run mode, in execution order
+ */
+export interface FluentPlan {
+    version: 1;
+    createdAt: string;
+    steps: FluentPlanStep[];
+}
+
+let recordedSteps: FluentPlanStep[] = [];
+let chainCount = 0;
+
+/**
+ * Record the steps of one dry-run chain. Called by the fluent proxy's execute().
+ * @param steps Steps of the chain, without the chain index
+ */
+export function recordPlanChain(steps: Array<Omit<FluentPlanStep, 'chain'>>): void {
+    const chain = chainCount++;
+    recordedSteps.push(...steps.map((step) => ({ chain, ...step })));
+}
+
+/**
+ * Export the plan recorded so far
+ * @param filePath Optional file to write the plan to as JSON (directories are created)
+ * @returns The recorded plan
+ */
+export function exportPlan(filePath?: string): FluentPlan {
+    const plan: FluentPlan = {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        steps: recordedSteps.map((step) => ({ ...step })),
+    };
+
+    if (filePath) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(plan, null, 2));
+        console.log(`\n📝 Fluent plan exported: ${filePath} (${plan.steps.length} steps)`);
+    }
+
+    return plan;
+}
+
+/**
+ * Clear the recorded plan, e.g. between specs
+ */
+export function resetPlan(): void {
+    recordedSteps = [];
+    chainCount = 0;
+}
+
+/**
+ * Read a plan previously written by exportPlan()
+ * @param filePath Path of the JSON plan file
+ */
+export function loadPlan(filePath: string): FluentPlan {
+    const plan = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FluentPlan;
+    if (plan.version !== 1 || !Array.isArray(plan.steps)) {
+        throw new Error(`Unsupported fluent plan file: ${filePath}`);
+    }
+    return plan;
+}
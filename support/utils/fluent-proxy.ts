@@ -1,11 +1,296 @@
+import {
+    FluentChainError,
+    SoftAssertionError,
+    serializeArg,
+    type FluentStepRecord,
+    type SoftAssertionFailure,
+} from './fluent-errors.js';
+import { capturePageSourceAndScreenshot } from './common.js';
+import { recordPlanChain, type FluentPlanStep } from './fluent-plan.js';
+import { retry, type RetryPolicy } from './retry.js';
+import { withHealing } from './self-healing.js';
+import { checkBudget, recordChainTimings, toTimingBudget, type StepTiming, type TimingBudget } from './step-timings.js';
+
+/**
+ * Page a method lands on, as declared in the page's `transitions` map.
+ * Methods without a declared transition keep the chain on the same page.
+ */
+type LandingPage<T, K> = T extends { transitions: infer M }
+    ? K extends keyof M
+        ? M[K] extends () => infer P ? P : T
+        : T
+    : T;
+
+/**
+ * Whether a method is an action (resolves to the page itself or to nothing) rather than
+ * a query that resolves to data. Only actions can be chained; queries go through `capture()`.
+ */
+type IsAction<T, R> = [Awaited<R>] extends [void | T] ? true : false;
+
 /**
- * Type helper that transforms all methods in a type to return the fluent proxy type for chaining
+ * Keeps non-function properties and action methods, drops query methods
  */
-type FluentProxy<T> = {
-    [K in keyof T]: T[K] extends (...args: infer A) => any
-        ? (...args: A) => FluentProxy<T> & { execute: () => Promise<T> }
+type ChainKey<T, K extends keyof T> = T[K] extends (...args: any[]) => infer R
+    ? IsAction<T, R> extends true ? K : never
+    : K;
+
+/**
+ * Type-only marker carrying the current page type of a chain, used to infer it back
+ */
+declare const chainPage: unique symbol;
+
+/**
+ * Page type of a fluent chain
+ */
+type ChainPage<R> = R extends { readonly [chainPage]?: infer P } ? P : never;
+
+/**
+ * Type helper that transforms all action methods in a type to return the fluent proxy type for chaining.
+ * Navigation methods declared in `transitions` switch the chain to the page they land on.
+ * `C` accumulates the values captured so far and is what execute() resolves to.
+ */
+export type FluentProxy<T, C extends Record<string, unknown> = {}> = {
+    [K in keyof T as ChainKey<T, K>]: T[K] extends (...args: infer A) => any
+        ? (...args: A) => FluentProxy<LandingPage<T, K>, C>
         : T[K];
-} & { execute: () => Promise<T> };
+} & {
+    readonly [chainPage]?: T;
+    /**
+     * Queue a query against the current page and store its result under `key`
+     * @param key Name of the value in the record returned by execute()
+     * @param query Receives the page object and returns the value to capture
+     */
+    capture: <K extends string, V>(key: K, query: (page: T) => V | Promise<V>) => FluentProxy<T, C & { [P in K]: Awaited<V> }>;
+    /**
+     * Retry the next queued step according to the policy
+     * @param policy Attempts, backoff and recovery action between attempts
+     */
+    withRetry: (policy: RetryPolicy) => FluentProxy<T, C>;
+    /**
+     * Time budget of the next queued step; a plain number only warns when exceeded
+     * @param budget Maximum duration in ms, or `{ maxMs, onExceed: 'fail' }` to fail the chain
+     */
+    withBudget: (budget: number | TimingBudget) => FluentProxy<T, C>;
+    /**
+     * Run the following verify* steps as soft assertions: failures are recorded with a screenshot,
+     * the chain continues and execute() throws one SoftAssertionError listing all of them
+     */
+    softly: () => FluentProxy<T, C>;
+    /**
+     * Splice the steps of a chain fragment into this chain
+     * @param fragment Fragment created with defineChain(), starting on the current page
+     * @param params Parameters passed to the fragment
+     */
+    use: <P, R>(fragment: ChainFragment<T, P, R>, params: P) => FluentProxy<ChainPage<R>, C>;
+    execute: () => Promise<C>;
+};
+
+/**
+ * A named, parameterized sequence of steps that can be spliced into any chain with use()
+ */
+export interface ChainFragment<T, P, R> {
+    name: string;
+    build: (chain: FluentProxy<T>, params: P) => R;
+}
+
+/**
+ * Define a reusable chain fragment (macro). Its steps are queued individually on the chain
+ * it is used in, so traces, errors and plans show each of them, tagged with the fragment name.
+ * @param name Name shown next to the fragment's steps
+ * @param build Queues the fragment's steps on the given chain and returns the chain
+ *
+ * @example
+ * ```typescript
+ * export const addExercise = defineChain('addExercise', (chain: FluentProxy<ManageExercisePage>, params: AddExerciseParams) =>
+ *     chain.tapAddExerciseForMuscleGroup(params.muscle).enterExerciseName(params.name).tapSave().tapBack());
+ *
+ * await routineDetail.tapExercisesForDay('Monday').use(addExercise, { muscle: 'Chest', name: 'Bench Press', ... }).execute();
+ * ```
+ */
+export function defineChain<T, P, R>(name: string, build: (chain: FluentProxy<T>, params: P) => R): ChainFragment<T, P, R> {
+    return { name, build };
+}
+
+/**
+ * A queued page method call or capture, bound to the page it runs on
+ */
+interface QueuedStep {
+    page: object;
+    method: string;
+    args: any[];
+    run: () => Promise<unknown>;
+    /** Key to store the step result under, for capture steps */
+    captureAs?: string;
+    /** Whether a failure is recorded instead of stopping the chain (verify* steps after softly()) */
+    soft?: boolean;
+    /** Retry policy set by withRetry() right before the step */
+    retry?: RetryPolicy;
+    /** Name of the fragment(s) that queued the step, outermost first */
+    fragment?: string;
+    /** Time budget set by withBudget(), or the proxy's default step budget */
+    budget?: TimingBudget;
+}
+
+/**
+ * Options for createFluentProxy()
+ */
+export interface FluentProxyOptions {
+    /**
+     * Record the queued steps into the fluent plan (see exportPlan()) instead of running them.
+     * Defaults to true when the FLUENT_DRY_RUN environment variable is 'true'.
+     */
+    dryRun?: boolean;
+    /**
+     * Default time budget of every step; a plain number only warns when exceeded.
+     * Defaults to a warning budget from the FLUENT_STEP_BUDGET_MS environment variable, if set.
+     */
+    stepBudget?: number | TimingBudget;
+    /** Time budget of a whole execute() call; a plain number only warns when exceeded */
+    chainBudget?: number | TimingBudget;
+}
+
+/**
+ * Observer of executed fluent steps, e.g. for reports. Errors thrown by listeners are logged and ignored.
+ */
+export interface FluentStepListener {
+    /** Called right before a step runs */
+    beforeStep?: (step: FluentStepRecord) => unknown;
+    /** Called after a step ran, with the error when it failed */
+    afterStep?: (step: FluentStepRecord, error?: unknown) => unknown;
+}
+
+const stepListeners = new Set<FluentStepListener>();
+
+/**
+ * Register a listener notified around every executed fluent step
+ * @returns A function removing the listener
+ */
+export function addStepListener(listener: FluentStepListener): () => void {
+    stepListeners.add(listener);
+    return () => stepListeners.delete(listener);
+}
+
+/**
+ * Notify the registered step listeners
+ */
+async function notifyStepListeners(event: keyof FluentStepListener, step: FluentStepRecord, error?: unknown): Promise<void> {
+    for (const listener of stepListeners) {
+        try {
+            await listener[event]?.(step, error);
+        } catch (listenerError) {
+            console.log(`⚠️  Step listener failed on ${event}: ${listenerError instanceof Error ? listenerError.message : String(listenerError)}`);
+        }
+    }
+}
+
+/**
+ * Take a screenshot for a failed soft assertion
+ * @returns The screenshot path, or undefined when the capture failed
+ */
+async function captureSoftFailure(step: FluentStepRecord): Promise<string | undefined> {
+    const capture = await capturePageSourceAndScreenshot({
+        prefix: `soft-assertion-${Date.now()}-${step.index}-${step.method}`,
+        logToConsole: false,
+    });
+    return capture?.screenshotPath;
+}
+
+/**
+ * Resolve the page a method navigates to from the page's `transitions` map
+ * @returns The landing page, or undefined when the method stays on the same screen
+ */
+function getLandingPage(page: object, method: string): object | undefined {
+    const transitions = (page as { transitions?: Record<string, () => object> }).transitions;
+    return transitions?.[method]?.();
+}
+
+/**
+ * Run queued steps in order, healing broken selectors and timing each step against its budget and the chain budget.
+ * The timings are recorded for the per-test report (see reportStepTimings()).
+ * @returns The captured values by key
+ * @throws FluentChainError for the first failing step that is not a soft assertion,
+ * including steps that exceed a budget with `onExceed: 'fail'`
+ * @throws SoftAssertionError when soft assertions failed and every other step passed
+ */
+async function runSteps(steps: QueuedStep[], chainBudget?: TimingBudget): Promise<Record<string, unknown>> {
+    const captures: Record<string, unknown> = {};
+    const softFailures: SoftAssertionFailure[] = [];
+    const softCount = steps.filter((step) => step.soft).length;
+    const records: FluentStepRecord[] = steps.map((step, i) => ({
+        index: i + 1,
+        page: step.page.constructor.name,
+        method: step.method,
+        args: step.args.map(serializeArg),
+        fragment: step.fragment,
+    }));
+    const timings: Array<Omit<StepTiming, 'chain'>> = [];
+    const chainStartedAt = Date.now();
+
+    try {
+        for (let i = 0; i < steps.length; i++) {
+            const { run, captureAs, soft, retry: policy, budget } = steps[i];
+            const { index, page, method, args, fragment } = records[i];
+            const label = `${page}.${method}`;
+            const timing: Omit<StepTiming, 'chain'> = { step: index, page, method, args, fragment, durationMs: 0, budgetMs: budget?.maxMs };
+            timings.push(timing);
+            await notifyStepListeners('beforeStep', records[i]);
+            const startedAt = Date.now();
+            try {
+                const result = await withHealing(() => (policy ? retry(run, { label, ...policy }) : run()), label);
+                if (captureAs !== undefined) {
+                    captures[captureAs] = result;
+                }
+                timing.durationMs = records[i].durationMs = Date.now() - startedAt;
+                timing.overBudget = checkBudget(`step ${index} ${label}`, timing.durationMs, budget) || undefined;
+                checkBudget(`Chain (at step ${index} ${label})`, Date.now() - chainStartedAt, chainBudget);
+                await notifyStepListeners('afterStep', records[i]);
+            } catch (error) {
+                // Already set when the step itself passed but exceeded a budget
+                timing.durationMs = records[i].durationMs ??= Date.now() - startedAt;
+                timing.failed = true;
+                await notifyStepListeners('afterStep', records[i], error);
+                if (soft) {
+                    console.log(`❌ Soft assertion failed: step ${index} ${method}`);
+                    softFailures.push({ step: records[i], error, screenshotPath: await captureSoftFailure(records[i]) });
+                    continue;
+                }
+                if (softFailures.length > 0) {
+                    console.log(new SoftAssertionError(softFailures, softCount).message);
+                }
+                throw new FluentChainError(records, i, error);
+            }
+        }
+    } finally {
+        recordChainTimings(timings);
+    }
+
+    if (softFailures.length > 0) {
+        throw new SoftAssertionError(softFailures, softCount);
+    }
+    return captures;
+}
+
+/**
+ * Convert a queued step to its plan representation for dry runs
+ */
+function toPlanStep(step: QueuedStep): Omit<FluentPlanStep, 'chain'> {
+    const planStep: Omit<FluentPlanStep, 'chain'> = {
+        page: step.page.constructor.name,
+        method: step.method,
+        args: step.args,
+    };
+    if (step.fragment) {
+        planStep.fragment = step.fragment;
+    }
+    if (step.soft) {
+        planStep.soft = true;
+    }
+    if (step.retry) {
+        const { attempts, backoff, label } = step.retry;
+        planStep.retry = { attempts, backoff, label };
+    }
+    return planStep;
+}
 
 /**
  * Creates a fluent proxy for a page object that allows method chaining
@@ -13,8 +298,38 @@ type FluentProxy<T> = {
  * 
  * With the fluent proxy, you can chain methods without await keywords until execute():
  * 
+ * If a queued step throws, execute() rejects with a {@link FluentChainError} that names
+ * the failing step, lists the whole chain with timings and keeps the original error as `cause`.
+ * 
+ * Pages can declare where their navigation methods land through a `transitions` map
+ * (method name → landing page). After such a step the chain continues on the landing page,
+ * so one chain can walk across several screens.
+ * 
+ * Methods that return data instead of the page are not chainable directly; run them with
+ * `capture(key, page => page.someQuery())` and read the results from the record execute() resolves to.
+ * 
+ * `withRetry(policy)` retries the step queued right after it, running the policy's recovery
+ * action between attempts.
+ * 
+ * With SELF_HEALING=true, when a step fails because an objects-layer getter found nothing by accessibility id,
+ * the selector is healed from the current page source and the step is retried once (see withHealing()).
+ * 
+ * After `softly()`, failing verify* steps are recorded (with a screenshot) instead of stopping
+ * the chain; execute() then throws a single {@link SoftAssertionError} listing every failure.
+ * 
+ * Every step is timed. `withBudget(ms)` sets a time budget for the next step, the `stepBudget` and
+ * `chainBudget` options for every step and the whole chain; exceeding one warns, or fails the chain
+ * with `onExceed: 'fail'`. The timings of a test are reported by reportStepTimings() after the test.
+ * 
+ * `use(fragment, params)` splices a fragment made with {@link defineChain} into the chain.
+ * 
+ * In dry-run mode nothing touches the device: execute() only records the steps (page, method, args)
+ * into the fluent plan, which exportPlan() writes as JSON and replayPlan() runs later.
+ * 
  * @param targetPage The page object instance to wrap
- * @returns A proxy that queues method calls and executes them when execute() is called
+ * @param options Proxy options, e.g. `{ dryRun: true }`
+ * @returns A proxy that queues method calls and executes them when execute() is called;
+ * execute() resolves to the record of captured values
  * 
  * @example
  * ```typescript
@@ -25,42 +340,152 @@ type FluentProxy<T> = {
  *     .tapCreateRoutine()   // No await needed
  *     .verifyRoutineExists('My Routine')  // No await needed
  *     .execute();           // Only await here
+ * 
+ * // Navigation methods switch the chain to the next page
+ * await fluentPage
+ *     .waitForScreen()
+ *     .tapRoutineItem('My Routine')  // → RoutineDetailPage
+ *     .waitForScreen()
+ *     .tapBack()                     // → MyRoutinesPage
+ *     .execute();
+ * 
+ * // Queries are captured and returned by execute()
+ * const { total } = await createFluentWeeklyReportPage()
+ *     .waitForScreen()
+ *     .capture('total', page => page.getExerciseTotalByIndex(0))
+ *     .execute();
+ * 
+ * // Retry a flaky step, dismissing alerts between attempts
+ * await fluentPage
+ *     .withRetry({ attempts: 3, backoff: 1000, recover: recoveries.dismissAlert() })
+ *     .waitForScreen()
+ *     .execute();
+ * 
+ * // Report every wrong total in one run
+ * await createFluentWeeklyReportPage()
+ *     .softly()
+ *     .verifyExerciseTotalsCount(3)
+ *     .verifyMuscleGroupTotal('Chest', 9)
+ *     .verifyMuscleGroupTotal('Back', 4)
+ *     .execute();
+ * 
+ * // Fail if saving takes longer than 3s
+ * await createFluentManageExercisePage()
+ *     .withBudget({ maxMs: 3000, onExceed: 'fail' })
+ *     .tapSave()
+ *     .execute();
  * ```
  */
-export function createFluentProxy<T extends object>(targetPage: T): FluentProxy<T> {
-    const queue: Array<(page: T) => Promise<T>> = [];
+export function createFluentProxy<T extends object>(targetPage: T, options: FluentProxyOptions = {}): FluentProxy<T> {
+    const dryRun = options.dryRun ?? process.env.FLUENT_DRY_RUN === 'true';
+    const envStepBudget = Number(process.env.FLUENT_STEP_BUDGET_MS);
+    const stepBudget = toTimingBudget(options.stepBudget ?? (envStepBudget > 0 ? envStepBudget : undefined));
+    const chainBudget = toTimingBudget(options.chainBudget);
+    const queue: QueuedStep[] = [];
+    // Page the next queued call will run on; moves along declared transitions
+    let currentPage: object = targetPage;
+    // Retry policy set by withRetry(), applied to the next queued step
+    let pendingRetry: RetryPolicy | undefined;
+    // Budget set by withBudget(), applied to the next queued step
+    let pendingBudget: TimingBudget | undefined;
+    // Set by softly(), until the chain is executed
+    let softMode = false;
+    // Names of the fragments currently being spliced in by use()
+    const fragments: string[] = [];
     let proxy: any;
 
+    const enqueue = (step: QueuedStep) => {
+        step.soft = softMode && step.method.startsWith('verify');
+        step.retry = pendingRetry;
+        step.fragment = fragments.length > 0 ? fragments.join(' › ') : undefined;
+        step.budget = pendingBudget ?? stepBudget;
+        pendingRetry = undefined;
+        pendingBudget = undefined;
+        queue.push(step);
+    };
+
     proxy = new Proxy(targetPage, {
-        get(target, prop) {
+        get(_target, prop) {
             // Handle 'execute' method
             if (prop === 'execute') {
                 return async () => {
-                    let result: T = target;
-                    for (const task of queue) {
-                        result = await task(result);
+                    const steps = queue.splice(0, queue.length);
+                    currentPage = targetPage;
+                    pendingRetry = undefined;
+                    pendingBudget = undefined;
+                    softMode = false;
+
+                    if (dryRun) {
+                        recordPlanChain(steps.map(toPlanStep));
+                        return {};
+                    }
+                    return runSteps(steps, chainBudget);
+                };
+            }
+
+            // Handle 'capture' method: the query runs against the page current at this point of the chain
+            if (prop === 'capture') {
+                return (key: string, query: (page: object) => unknown) => {
+                    const page = currentPage;
+                    enqueue({ page, method: 'capture', args: [key], run: async () => query(page), captureAs: key });
+                    return proxy;
+                };
+            }
+
+            // Handle 'softly' modifier
+            if (prop === 'softly') {
+                return () => {
+                    softMode = true;
+                    return proxy;
+                };
+            }
+
+            // Handle 'use': the fragment queues its steps on this proxy
+            if (prop === 'use') {
+                return (fragment: ChainFragment<object, unknown, unknown>, params: unknown) => {
+                    fragments.push(fragment.name);
+                    try {
+                        fragment.build(proxy, params);
+                    } finally {
+                        fragments.pop();
                     }
-                    queue.length = 0;
-                    return result;
+                    return proxy;
                 };
             }
 
+            // Handle 'withRetry' modifier
+            if (prop === 'withRetry') {
+                return (policy: RetryPolicy) => {
+                    pendingRetry = policy;
+                    return proxy;
+                };
+            }
+
+            // Handle 'withBudget' modifier
+            if (prop === 'withBudget') {
+                return (budget: number | TimingBudget) => {
+                    pendingBudget = toTimingBudget(budget);
+                    return proxy;
+                };
+            }
+
+            const page = currentPage;
+            const value = page[prop as keyof typeof page];
+
             // Intercept page methods
-            if (typeof target[prop as keyof T] === 'function') {
+            if (typeof value === 'function') {
                 return (...args: any[]) => {
-                    queue.push(async (currentPage: T) => {
-                        const method = currentPage[prop as keyof T] as Function;
-                        return await method.apply(currentPage, args);
-                    });
+                    const method = String(prop);
+                    enqueue({ page, method, args, run: async () => (value as Function).apply(page, args) });
+                    currentPage = getLandingPage(page, method) ?? page;
                     return proxy; // Return proxy for chaining (synchronously, not a Promise)
                 };
             }
 
             // Return non-function properties directly
-            return target[prop as keyof T];
+            return value;
         }
     });
 
     return proxy as FluentProxy<T>;
 }
-
@@ -0,0 +1,204 @@
+import type { PageElement } from './page-source.js';
+
+/**
+ * A compiled `-ios predicate string` selector, tested against parsed page source elements
+ */
+export type PredicateMatcher = (element: PageElement) => boolean;
+
+type Token =
+    | { kind: 'string'; value: string }
+    | { kind: 'number'; value: number }
+    | { kind: 'word'; value: string }
+    | { kind: 'operator'; value: string }
+    | { kind: 'modifier'; value: string };
+
+const STRING_OPERATORS = ['CONTAINS', 'BEGINSWITH', 'ENDSWITH', 'LIKE', 'MATCHES'];
+const KEYWORDS = ['AND', 'OR', 'NOT', ...STRING_OPERATORS];
+
+/**
+ * Split a predicate into tokens: strings, numbers, keys and keywords, operators and [c]/[d]/[cd] modifiers
+ */
+function tokenize(predicate: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < predicate.length) {
+        const char = predicate[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '"' || char === '\'') {
+            let value = '';
+            i++;
+            while (i < predicate.length && predicate[i] !== char) {
+                value += predicate[i] === '\\' ? predicate[++i] : predicate[i];
+                i++;
+            }
+            if (i >= predicate.length) {
+                throw new Error(`Unterminated string in predicate: ${predicate}`);
+            }
+            tokens.push({ kind: 'string', value });
+            i++;
+        } else if (char === '[') {
+            const end = predicate.indexOf(']', i);
+            if (end === -1) {
+                throw new Error(`Unterminated modifier in predicate: ${predicate}`);
+            }
+            tokens.push({ kind: 'modifier', value: predicate.slice(i + 1, end).toLowerCase() });
+            i = end + 1;
+        } else if (/[=!<>&|()]/.test(char)) {
+            const operator = ['==', '!=', '<>', '&&', '||'].find((candidate) => predicate.startsWith(candidate, i)) ?? char;
+            tokens.push({ kind: 'operator', value: operator });
+            i += operator.length;
+        } else if (/[-\d]/.test(char)) {
+            const number = predicate.slice(i).match(/^-?\d+(\.\d+)?/)?.[0];
+            if (!number) {
+                throw new Error(`Unexpected "${char}" in predicate: ${predicate}`);
+            }
+            tokens.push({ kind: 'number', value: Number(number) });
+            i += number.length;
+        } else {
+            const word = predicate.slice(i).match(/^[A-Za-z_][\w.]*/)?.[0];
+            if (!word) {
+                throw new Error(`Unexpected "${char}" in predicate: ${predicate}`);
+            }
+            tokens.push({ kind: 'word', value: KEYWORDS.includes(word.toUpperCase()) ? word.toUpperCase() : word });
+            i += word.length;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Value of a predicate key on an element; XCUITest accepts `wdName` for `name` and so on
+ */
+function readKey(element: PageElement, key: string): string | undefined {
+    const attribute = /^wd[A-Z]/.test(key) ? key.charAt(2).toLowerCase() + key.slice(3) : key;
+    if (attribute === 'type' || attribute === 'elementType') {
+        return element.type;
+    }
+    return element.attributes[attribute];
+}
+
+/**
+ * Compare an attribute value with a predicate operand
+ */
+function compare(actual: string | undefined, operator: string, expected: string | number | boolean, modifier: string): boolean {
+    if (typeof expected !== 'string') {
+        // Booleans are stored as "true"/"false" in the page source, and compared as 1/0 by XCUITest
+        const normalized = actual === 'true' ? 1 : actual === 'false' ? 0 : Number(actual);
+        const value = typeof expected === 'boolean' ? Number(expected) : expected;
+        const equal = normalized === value;
+        return operator === '!=' || operator === '<>' ? !equal : equal;
+    }
+
+    const caseInsensitive = modifier.includes('c');
+    const left = caseInsensitive ? (actual ?? '').toLowerCase() : actual ?? '';
+    const right = caseInsensitive ? expected.toLowerCase() : expected;
+    switch (operator) {
+        case '==':
+        case '=':
+            return actual !== undefined && left === right;
+        case '!=':
+        case '<>':
+            return actual === undefined || left !== right;
+        case 'CONTAINS':
+            return left.includes(right);
+        case 'BEGINSWITH':
+            return left.startsWith(right);
+        case 'ENDSWITH':
+            return left.endsWith(right);
+        case 'LIKE': {
+            const pattern = right.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+            return new RegExp(`^${pattern}$`, 's').test(left);
+        }
+        case 'MATCHES':
+            return new RegExp(`^(?:${expected})$`, caseInsensitive ? 'is' : 's').test(actual ?? '');
+        default:
+            throw new Error(`Unsupported predicate operator: ${operator}`);
+    }
+}
+
+/**
+ * Compile an iOS predicate string (as used with `-ios predicate string:`) into a matcher.
+ * Supports comparisons (==, !=, CONTAINS, BEGINSWITH, ENDSWITH, LIKE, MATCHES with [c]/[d] modifiers)
+ * combined with AND/&&, OR/||, NOT/! and parentheses.
+ * @throws Error when the predicate cannot be parsed
+ */
+export function compilePredicate(predicate: string): PredicateMatcher {
+    const tokens = tokenize(predicate);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isOperator = (value: string) => peek()?.kind === 'operator' && peek()?.value === value;
+    const isWord = (value: string) => peek()?.kind === 'word' && peek()?.value === value;
+    const fail = (message: string): never => {
+        throw new Error(`${message} in predicate: ${predicate}`);
+    };
+
+    const parseComparison = (): PredicateMatcher => {
+        const key = tokens[position++];
+        if (key?.kind !== 'word') {
+            return fail('Expected a key');
+        }
+        const operator = tokens[position++];
+        if (!operator || !(operator.kind === 'operator' || (operator.kind === 'word' && STRING_OPERATORS.includes(operator.value)))) {
+            return fail(`Expected an operator after ${key.value}`);
+        }
+        const modifier = peek()?.kind === 'modifier' ? String(tokens[position++].value) : '';
+        const operand = tokens[position++];
+        let expected: string | number | boolean;
+        if (operand?.kind === 'string' || operand?.kind === 'number') {
+            expected = operand.value;
+        } else if (operand?.kind === 'word' && /^(true|false|yes|no)$/i.test(operand.value)) {
+            expected = /^(true|yes)$/i.test(operand.value);
+        } else {
+            return fail(`Expected a value after ${key.value} ${operator.value}`);
+        }
+        return (element) => compare(readKey(element, key.value), String(operator.value), expected, modifier);
+    };
+
+    const parsePrimary = (): PredicateMatcher => {
+        if (isOperator('(')) {
+            position++;
+            const inner = parseOr();
+            if (!isOperator(')')) {
+                return fail('Expected ")"');
+            }
+            position++;
+            return inner;
+        }
+        return parseComparison();
+    };
+
+    const parseNot = (): PredicateMatcher => {
+        if (isWord('NOT') || isOperator('!')) {
+            position++;
+            const inner = parseNot();
+            return (element) => !inner(element);
+        }
+        return parsePrimary();
+    };
+
+    const parseAnd = (): PredicateMatcher => {
+        const operands = [parseNot()];
+        while (isWord('AND') || isOperator('&&')) {
+            position++;
+            operands.push(parseNot());
+        }
+        return operands.length === 1 ? operands[0] : (element) => operands.every((operand) => operand(element));
+    };
+
+    const parseOr = (): PredicateMatcher => {
+        const operands = [parseAnd()];
+        while (isWord('OR') || isOperator('||')) {
+            position++;
+            operands.push(parseAnd());
+        }
+        return operands.length === 1 ? operands[0] : (element) => operands.some((operand) => operand(element));
+    };
+
+    const matcher = parseOr();
+    if (position < tokens.length) {
+        fail(`Unexpected "${String(peek().value)}"`);
+    }
+    return matcher;
+}
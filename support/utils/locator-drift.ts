@@ -0,0 +1,255 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { findArtifactFiles } from './artifacts.js';
+import { isTestId, OBJECTS_DIR, readObjectsFile, referencesId, toIdTemplates } from './objects-source.js';
+import { flattenElements, getCaptureScreenName, parsePageSource } from './page-source.js';
+import { similarity, tokenCoverage } from './self-healing.js';
+
+/**
+ * An accessibility id of a screen; ids with numbers are grouped, e.g. `muscle-group-{id}`
+ */
+export interface ScreenId {
+    /** The id, or its template when it has numeric parts */
+    id: string;
+    type: string;
+    /** Label of the element, left out for templates (it differs per item) */
+    label?: string;
+    /** Concrete ids of a template with their labels, e.g. `muscle-group-2` → `Back` */
+    items?: Record<string, string | undefined>;
+}
+
+/**
+ * Identifier changes of one screen between two capture sets
+ */
+export interface ScreenDrift {
+    screen: string;
+    /** Set when the screen was captured in one set only; nothing is compared then */
+    onlyIn?: 'old' | 'new';
+    added: ScreenId[];
+    removed: ScreenId[];
+    /** Renamed ids or templates, and concrete ids moved to a new template (`muscle-group-2` → `muscle-grp-2`) */
+    renamed: Array<{ from: ScreenId; to: ScreenId; score: number }>;
+    /** Type changes per id or template, label changes per concrete id */
+    changed: Array<{ id: string; type?: { from: string; to: string }; label?: { from?: string; to?: string } }>;
+}
+
+/**
+ * An objects-layer getter whose selector references ids that exist in the old captures only
+ */
+export interface StaleGetter {
+    /** Objects file, relative to the project root */
+    file: string;
+    line: number;
+    /** e.g. `WeeklyReportObjects.reloadButton` */
+    getter: string;
+    selector: string;
+    /** Old ids the selector matched */
+    removedIds: string[];
+    /** New id of a renamed identifier, when the rename was detected */
+    renamedTo?: string;
+}
+
+export interface DriftReport {
+    oldDir: string;
+    newDir: string;
+    screens: ScreenDrift[];
+    staleGetters: StaleGetter[];
+}
+
+/** Minimum score of a removed/added pair to be reported as a rename */
+const MIN_RENAME_SCORE = 0.6;
+
+/**
+ * Captured ids of a set of page sources, by screen (see getCaptureScreenName)
+ * @returns testID-style ids by screen, and every element name of the set (labels included)
+ */
+export function readCaptureSet(dir: string): { screens: Map<string, Map<string, ScreenId>>; names: Set<string> } {
+    const screens = new Map<string, Map<string, ScreenId>>();
+    const names = new Set<string>();
+
+    for (const file of findArtifactFiles('.xml', dir)) {
+        const elements = flattenElements(parsePageSource(fs.readFileSync(file, 'utf-8'))).filter((element) => element.parent && element.name);
+        elements.forEach((element) => names.add(element.name as string));
+
+        const screen = getCaptureScreenName(file);
+        const ids = screens.get(screen) ?? new Map<string, ScreenId>();
+        const testIdElements = elements.filter((element) => isTestId(element.name as string));
+        for (const template of toIdTemplates(testIdElements.map((element) => element.name as string))) {
+            const element = testIdElements.find((candidate) => candidate.name === template.examples[0])!;
+            const entry = ids.get(template.template) ?? {
+                id: template.template,
+                type: element.type,
+                label: template.params === 0 ? element.label : undefined,
+                items: template.params === 0 ? undefined : {},
+            };
+            if (entry.items) {
+                for (const id of template.examples) {
+                    entry.items[id] ??= testIdElements.find((candidate) => candidate.name === id)!.label;
+                }
+            }
+            ids.set(template.template, entry);
+        }
+        screens.set(screen, ids);
+    }
+    return { screens, names };
+}
+
+/**
+ * How likely an added id is the rename of a removed one: same type required, then the same label,
+ * or similar words in the ids
+ */
+function renameScore(from: ScreenId, to: ScreenId): number {
+    if (from.type !== to.type) {
+        return 0;
+    }
+    if (from.label && from.label === to.label) {
+        return 1;
+    }
+    return Math.max(similarity(from.id, to.id), tokenCoverage(from.id, to.id), tokenCoverage(to.id, from.id));
+}
+
+/**
+ * Best removed/added pairs that score as renames, each id used once
+ */
+function pairRenames(removed: ScreenId[], added: ScreenId[]): ScreenDrift['renamed'] {
+    const pairs = removed
+        .flatMap((from) => added.map((to) => ({ from, to, score: Math.round(renameScore(from, to) * 100) / 100 })))
+        .filter((pair) => pair.score >= MIN_RENAME_SCORE)
+        .sort((a, b) => b.score - a.score);
+    const renamed: ScreenDrift['renamed'] = [];
+    for (const pair of pairs) {
+        if (!renamed.some((rename) => rename.from === pair.from || rename.to === pair.to)) {
+            renamed.push(pair);
+        }
+    }
+    return renamed;
+}
+
+/**
+ * Concrete ids of a template as ScreenIds
+ */
+function templateItems(entry: ScreenId, exclude: Record<string, string | undefined> = {}): ScreenId[] {
+    return Object.entries(entry.items ?? {})
+        .filter(([id]) => !(id in exclude))
+        .map(([id, label]) => ({ id, type: entry.type, label }));
+}
+
+/**
+ * Compare the ids of one screen: added, removed, renamed (best removed/added pairs) and changed type or label.
+ * A template whose prefix is gone entirely is removed or renamed as a whole. A concrete id missing from a template
+ * that still exists (`muscle-group-2`) is a data difference, unless it reappears in a new template (`muscle-grp-2`):
+ * that is reported as a rename of the concrete id. Labels of templates are compared per concrete id.
+ */
+export function compareScreen(screen: string, oldIds: Map<string, ScreenId>, newIds: Map<string, ScreenId>): ScreenDrift {
+    const removed = [...oldIds.values()].filter((entry) => !newIds.has(entry.id));
+    const added = [...newIds.values()].filter((entry) => !oldIds.has(entry.id));
+    const renamed = pairRenames(removed, added);
+
+    // Concrete ids missing from kept templates, matched against the ids of new templates
+    const newTemplates = added.filter((entry) => entry.items && !renamed.some((rename) => rename.to === entry));
+    const missingItems = [...oldIds.values()]
+        .filter((entry) => entry.items && newIds.has(entry.id))
+        .flatMap((entry) => templateItems(entry, newIds.get(entry.id)!.items));
+    const movedItems = pairRenames(missingItems, newTemplates.flatMap((entry) => templateItems(entry)));
+    renamed.push(...movedItems);
+    const movedTemplates = newTemplates.filter((entry) =>
+        templateItems(entry).every((item) => movedItems.some((rename) => rename.to.id === item.id)));
+
+    const changed: ScreenDrift['changed'] = [];
+    for (const [id, before] of oldIds) {
+        const after = newIds.get(id);
+        if (!after) {
+            continue;
+        }
+        const type = before.type !== after.type ? { from: before.type, to: after.type } : undefined;
+        const label = before.label !== after.label ? { from: before.label, to: after.label } : undefined;
+        if (type || label) {
+            changed.push({ id, type, label });
+        }
+        for (const [itemId, itemLabel] of Object.entries(before.items ?? {})) {
+            if (after.items && itemId in after.items && after.items[itemId] !== itemLabel) {
+                changed.push({ id: itemId, label: { from: itemLabel, to: after.items[itemId] } });
+            }
+        }
+    }
+
+    return {
+        screen,
+        added: added.filter((entry) => !renamed.some((rename) => rename.to === entry) && !movedTemplates.includes(entry)),
+        removed: removed.filter((entry) => !renamed.some((rename) => rename.from === entry)),
+        renamed,
+        changed,
+    };
+}
+
+/**
+ * Getters of the objects files whose selectors match ids of the old captures but none of the new ones,
+ * or old ids that were renamed (e.g. `muscle-group-${id}` while `muscle-group-2` became `muscle-grp-2`)
+ * @param renames Old id (or template) → new id, from the screen comparison
+ */
+export function findStaleGetters(
+    oldNames: Set<string>,
+    newNames: Set<string>,
+    renames: Map<string, string>,
+    objectsDir: string = OBJECTS_DIR,
+): StaleGetter[] {
+    if (!fs.existsSync(objectsDir)) {
+        return [];
+    }
+    const templateOf = (id: string) => toIdTemplates([id])[0].template;
+    // `muscle-group-1` missing from the new captures is a data difference as long as other `muscle-group-*` ids exist
+    const newTemplates = new Set([...newNames].map(templateOf));
+    const stale: StaleGetter[] = [];
+
+    for (const file of fs.readdirSync(objectsDir).filter((name) => name.endsWith('.objects.ts')).sort()) {
+        const objects = readObjectsFile(path.join(objectsDir, file));
+        for (const member of objects.members) {
+            for (const reference of member.ids) {
+                const oldMatches = [...oldNames].filter((name) => referencesId(reference, name));
+                const renamedIds = oldMatches.filter((name) => !newNames.has(name) && renames.has(name));
+                if (oldMatches.length === 0 || (renamedIds.length === 0 &&
+                    ([...newNames].some((name) => referencesId(reference, name)) ||
+                        oldMatches.every((name) => newTemplates.has(templateOf(name)))))) {
+                    continue;
+                }
+                const removedIds = renamedIds.length > 0 ? renamedIds : oldMatches;
+                const renamedTo = removedIds.map((name) => renames.get(name) ?? renames.get(templateOf(name))).find(Boolean);
+                stale.push({
+                    file: path.relative(process.cwd(), objects.filePath),
+                    line: member.line,
+                    getter: `${objects.className ?? file}.${member.name}`,
+                    selector: member.selectors.find((selector) => selector.value.includes(reference.id))?.value ?? reference.id,
+                    removedIds: removedIds.slice(0, 5),
+                    renamedTo,
+                });
+            }
+        }
+    }
+    return stale;
+}
+
+/**
+ * Compare two capture sets (e.g. the DOM captures of the previous and of the new app build) screen by screen,
+ * and list the objects-layer getters that reference ids the new build no longer has
+ */
+export function compareCaptureSets(oldDir: string, newDir: string, objectsDir: string = OBJECTS_DIR): DriftReport {
+    const before = readCaptureSet(oldDir);
+    const after = readCaptureSet(newDir);
+
+    const screens = [...new Set([...before.screens.keys(), ...after.screens.keys()])].sort().map((screen): ScreenDrift => {
+        const oldIds = before.screens.get(screen);
+        const newIds = after.screens.get(screen);
+        if (!oldIds || !newIds) {
+            return { screen, onlyIn: oldIds ? 'old' : 'new', added: [], removed: [], renamed: [], changed: [] };
+        }
+        return compareScreen(screen, oldIds, newIds);
+    });
+
+    const renames = new Map(screens.flatMap((screen) => screen.renamed.map(({ from, to }) => [from.id, to.id] as [string, string])));
+    return {
+        oldDir,
+        newDir,
+        screens,
+        staleGetters: findStaleGetters(before.names, after.names, renames, objectsDir),
+    };
+}
@@ -0,0 +1,340 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { flattenElements, parsePageSource } from './page-source.js';
+
+export const OBJECTS_DIR = path.join(process.cwd(), 'tests', 'page-objects', 'objects');
+
+/**
+ * Accessibility ids set through testID: kebab case starting with a lowercase letter, e.g. `routine-item-3`.
+ * Labels used as names are skipped, including single words such as `OK`, `URL` or `Active`.
+ */
+const TEST_ID_PATTERN = /^[a-z][a-z0-9]*(?:-[A-Za-z0-9]+)*$/;
+
+/**
+ * Whether an element name looks like a testID rather than a label, e.g. `weight-input` but not `Weekly Report` or `OK`
+ */
+export function isTestId(name: string): boolean {
+    return TEST_ID_PATTERN.test(name);
+}
+
+/**
+ * How a selector refers to an accessibility id
+ * - exact: `~save-button`, `@name="save-button"`, `name == "save-button"`
+ * - template: `~routine-item-${index}`, with the interpolations kept in `id`
+ * - prefix: `starts-with(@name, "exercise-total-")`, `name BEGINSWITH "exercise-total-"`
+ * - contains: `contains(@name, "exercise-item-")`, `name CONTAINS "exercise-item-"`
+ */
+export interface IdReference {
+    id: string;
+    match: 'exact' | 'template' | 'prefix' | 'contains';
+}
+
+/**
+ * A selector literal of an objects class
+ */
+export interface ObjectsSelector {
+    /** e.g. `~weight-input`, with template interpolations kept as written */
+    value: string;
+    /** 1-based line of the literal */
+    line: number;
+    /** Passed to `$$` (a list of elements) rather than `$` */
+    all: boolean;
+}
+
+/**
+ * A getter or method of an objects class
+ */
+export interface ObjectsMember {
+    name: string;
+    kind: 'getter' | 'method';
+    /** 1-based line of the declaration */
+    line: number;
+    /** Selector literals returned by the member */
+    selectors: ObjectsSelector[];
+    ids: IdReference[];
+}
+
+/**
+ * An objects-layer file (tests/page-objects/objects/*.objects.ts)
+ */
+export interface ObjectsFile {
+    filePath: string;
+    className?: string;
+    members: ObjectsMember[];
+}
+
+/**
+ * A family of capture ids, with numeric parts and data names turned into parameters,
+ * e.g. `muscle-group-{id}`, `routine-{name}`
+ */
+export interface IdTemplate {
+    /** The id with `{id}` in place of each numeric part and `{name}` in place of a trailing data name */
+    template: string;
+    /** Number of parameters */
+    params: number;
+    /** Ids of the captures matching the template */
+    examples: string[];
+}
+
+/** Placeholders of an id template, in order */
+function templateParams(template: string): Array<'id' | 'name'> {
+    return [...template.matchAll(/\{(id|name)\}/g)].map((found) => found[1] as 'id' | 'name');
+}
+
+/**
+ * Ids referenced by a selector
+ */
+export function getIdReferences(selector: string): IdReference[] {
+    if (selector.startsWith('~')) {
+        const id = selector.slice(1);
+        return [{ id, match: id.includes('${') ? 'template' : 'exact' }];
+    }
+    const references: IdReference[] = [];
+    const patterns: Array<[RegExp, IdReference['match']]> = [
+        [/@name\s*=\s*["']([^"']+)["']/g, 'exact'],
+        [/starts-with\(@name,\s*["']([^"']+)["']\)/g, 'prefix'],
+        [/contains\(@name,\s*["']([^"']+)["']\)/g, 'contains'],
+        [/\bname\s*==\s*["']([^"']+)["']/g, 'exact'],
+        [/\bname\s+BEGINSWITH\s*["']([^"']+)["']/g, 'prefix'],
+        [/\bname\s+CONTAINS\s*["']([^"']+)["']/g, 'contains'],
+    ];
+    for (const [pattern, match] of patterns) {
+        for (const found of selector.matchAll(pattern)) {
+            references.push({ id: found[1], match: found[1].includes('${') ? 'template' : match });
+        }
+    }
+    return references;
+}
+
+/**
+ * Pattern of the ids a templated id covers: each interpolation stands for one id segment,
+ * so `routine-item-${index}` covers `routine-item-3` but not `routine-item-touchable-3`
+ */
+export function templateIdPattern(template: string): RegExp {
+    const pattern = template
+        .split(/\$\{[^}]*\}/)
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^-]+');
+    return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Whether a reference covers a concrete id
+ */
+export function referencesId(reference: IdReference, id: string): boolean {
+    switch (reference.match) {
+        case 'exact':
+            return reference.id === id;
+        case 'prefix':
+            return id.startsWith(reference.id);
+        case 'contains':
+            return id.includes(reference.id);
+        case 'template':
+            return templateIdPattern(reference.id).test(id);
+    }
+}
+
+/**
+ * Parse the getters and methods of an objects file with the selectors they return
+ */
+export function readObjectsFile(filePath: string): ObjectsFile {
+    return parseObjectsSource(fs.readFileSync(filePath, 'utf-8'), filePath);
+}
+
+/**
+ * Parse the getters and methods of objects-layer source code
+ */
+export function parseObjectsSource(source: string, filePath: string): ObjectsFile {
+    const lines = source.split('\n');
+    const members: ObjectsMember[] = [];
+
+    lines.forEach((line, i) => {
+        const declaration = line.match(/^\s*public\s+(get\s+)?(\w+)\s*\(/);
+        if (declaration) {
+            members.push({ name: declaration[2], kind: declaration[1] ? 'getter' : 'method', line: i + 1, selectors: [], ids: [] });
+            return;
+        }
+        const member = members[members.length - 1];
+        const literal = line.match(/\$(\$?)\((['"`])(.+?)\2\)/);
+        if (member && literal) {
+            member.selectors.push({ value: literal[3], line: i + 1, all: literal[1] === '$' });
+            member.ids.push(...getIdReferences(literal[3]));
+        }
+    });
+
+    return { filePath, className: source.match(/class\s+(\w+)/)?.[1], members };
+}
+
+/**
+ * Accessibility ids of captured page sources, in order of first appearance
+ * (testID-style names only; the application root is skipped)
+ */
+export function collectCaptureIds(pageSources: string[]): string[] {
+    const ids = new Set<string>();
+    for (const xml of pageSources) {
+        for (const element of flattenElements(parsePageSource(xml))) {
+            if (element.parent && element.name && isTestId(element.name)) {
+                ids.add(element.name);
+            }
+        }
+    }
+    return [...ids];
+}
+
+/**
+ * Group ids into templates, turning numeric parts into parameters:
+ * `muscle-group-1` and `muscle-group-4` become `muscle-group-{id}`.
+ * testIDs are lower kebab case, so from the first part starting with a capital letter the rest of the id
+ * is taken for a name from the app's data: `routine-Push-Day` and `routine-Leg-Day` become `routine-{name}`.
+ * Lowercase data names (`routine-push-day`) cannot be told from fixed ids and stay one id each.
+ */
+export function toIdTemplates(ids: string[]): IdTemplate[] {
+    const templates = new Map<string, IdTemplate>();
+    for (const id of ids) {
+        const parts = id.split('-');
+        const nameStart = parts.findIndex((part, i) => i > 0 && /^[A-Z]/.test(part));
+        const template = [
+            ...(nameStart === -1 ? parts : parts.slice(0, nameStart)).map((part, i) => i > 0 && /^\d+$/.test(part) ? '{id}' : part),
+            ...(nameStart === -1 ? [] : ['{name}']),
+        ].join('-');
+        const entry = templates.get(template) ?? { template, params: templateParams(template).length, examples: [] };
+        entry.examples.push(id);
+        templates.set(template, entry);
+    }
+    return [...templates.values()];
+}
+
+/**
+ * camelCase name of an id, e.g. `exercise-name-input` → `exerciseNameInput`
+ */
+export function toCamelCase(id: string): string {
+    return id
+        .split(/[-_\s]+/)
+        .filter(Boolean)
+        .map((word, i) => i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+        .join('');
+}
+
+/**
+ * Title and class name of a screen, e.g. `weekly-report` → `Weekly Report`, `WeeklyReportObjects`
+ */
+export function toScreenNames(screen: string): { title: string; className: string } {
+    const words = screen.split(/[-_\s]+/).filter(Boolean).map((word) => word.charAt(0).toUpperCase() + word.slice(1));
+    return { title: words.join(' '), className: `${words.join('')}Objects` };
+}
+
+/**
+ * Source of the member for an id template, in the style of the objects files
+ */
+function renderMember(template: IdTemplate): { name: string; code: string } {
+    if (template.params === 0) {
+        const name = toCamelCase(template.template);
+        return { name, code: `    public get ${name}() {\n        return $('~${template.template}');\n    }\n` };
+    }
+
+    const kinds = templateParams(template.template);
+    const params = kinds.map((kind, i) => {
+        const sameKind = kinds.filter((other) => other === kind).length;
+        return sameKind === 1 ? kind : `${kind}${kinds.slice(0, i + 1).filter((other) => other === kind).length}`;
+    });
+    const pattern = template.template
+        .split(/\{(?:id|name)\}/)
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('(.+?)');
+    const examples = template.examples[0].match(new RegExp(`^${pattern}$`))?.slice(1) ?? [];
+    let next = 0;
+    const selector = template.template.replace(/\{(?:id|name)\}/g, () => `\${${params[next++]}}`);
+    const name = `get${toCamelCase(template.template.replace(/-\{(?:id|name)\}/g, '')).replace(/^./, (first) => first.toUpperCase())}`;
+    return {
+        name,
+        code: [
+            '    /**',
+            `     * Get the ${template.template} element`,
+            ...params.map((param, i) => kinds[i] === 'id'
+                ? `     * @param ${param} Number in the testID, e.g. ${examples[i]}`
+                : `     * @param ${param} Name in the testID, e.g. ${examples[i]}`),
+            '     */',
+            `    public ${name}(${params.map((param, i) => `${param}: ${kinds[i] === 'id' ? 'number' : 'string'}`).join(', ')}) {`,
+            `        return $(\`~${selector}\`);`,
+            '    }',
+            '',
+        ].join('\n'),
+    };
+}
+
+/**
+ * Write or update the objects class of a screen from its capture ids. Members already in the file are kept
+ * as they are; a member is added for each id (or id template) that no existing selector covers.
+ * @param screen Screen name in kebab case, e.g. `weekly-report`
+ * @param existing Current source of the objects file, if any
+ * @returns The new source, the added member names and the ids that were left out
+ */
+export function generateObjectsSource(
+    screen: string,
+    templates: IdTemplate[],
+    existing?: string,
+): { source: string; added: string[]; skipped: Array<{ template: string; reason: string }> } {
+    const { title, className } = toScreenNames(screen);
+    let source = existing ?? [
+        `import { $ } from '../../../support/utils/self-healing.js';`,
+        '',
+        '/**',
+        ` * Object definitions for the "${title}" screen`,
+        ' * Contains only selectors/objects - no actions',
+        ' */',
+        `class ${className} {`,
+        '}',
+        '',
+        `export default new ${className}();`,
+        '',
+    ].join('\n');
+
+    const members = parseObjectsSource(source, `${screen}.objects.ts`).members;
+
+    const names = new Set(members.map((member) => member.name));
+    const added: string[] = [];
+    const skipped: Array<{ template: string; reason: string }> = [];
+    const blocks: string[] = [];
+
+    for (const template of templates) {
+        const coveredBy = members.find((member) => member.ids.some((reference) =>
+            template.examples.some((id) => referencesId(reference, id))));
+        if (coveredBy) {
+            skipped.push({ template: template.template, reason: `covered by ${coveredBy.name}` });
+            continue;
+        }
+        const member = renderMember(template);
+        if (!/^[A-Za-z_]\w*$/.test(member.name)) {
+            skipped.push({ template: template.template, reason: `no valid name (${member.name})` });
+            continue;
+        }
+        if (names.has(member.name)) {
+            skipped.push({ template: template.template, reason: `${member.name} is taken by another member` });
+            continue;
+        }
+        names.add(member.name);
+        added.push(member.name);
+        blocks.push(member.code);
+    }
+
+    if (blocks.length > 0) {
+        const lines = source.split('\n');
+        const exportLine = lines.findIndex((line) => line.startsWith('export default'));
+        let classEnd = -1;
+        for (let i = (exportLine === -1 ? lines.length : exportLine) - 1; i >= 0; i--) {
+            if (lines[i].startsWith('}')) {
+                classEnd = i;
+                break;
+            }
+        }
+        if (classEnd === -1) {
+            throw new Error(`No class body found in the objects file of ${screen}`);
+        }
+        const hasMembers = lines.slice(0, classEnd).some((line) => /^\s*public\s/.test(line));
+        const inserted = blocks.join('\n').replace(/\n$/, '');
+        lines.splice(classEnd, 0, ...(hasMembers ? ['', inserted] : [inserted]));
+        source = lines.join('\n');
+    }
+
+    return { source, added, skipped };
+}
@@ -0,0 +1,196 @@
+import * as path from 'node:path';
+import { DOMParser, type Element as XmlElement } from '@xmldom/xmldom';
+
+/**
+ * On-screen rectangle of an element, in points
+ */
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * An element of an Appium XCUITest page source, with its place in the hierarchy
+ */
+export interface PageElement {
+    /** Element type, e.g. XCUIElementTypeButton */
+    type: string;
+    /** Accessibility id (testID) */
+    name?: string;
+    label?: string;
+    value?: string;
+    visible: boolean;
+    enabled: boolean;
+    accessible: boolean;
+    bounds?: Bounds;
+    /** Child positions from the root, e.g. [0, 0, 2] for the third child of the root's first child */
+    indexPath: number[];
+    parent?: PageElement;
+    children: PageElement[];
+    /** All raw attributes of the XML element */
+    attributes: Record<string, string>;
+}
+
+/**
+ * Parse the bounds attributes (x, y, width, height) of an element
+ */
+function parseBounds(attributes: Record<string, string>): Bounds | undefined {
+    const values = ['x', 'y', 'width', 'height'].map((key) => Number(attributes[key]));
+    if (values.some((value) => Number.isNaN(value)) || attributes.width === undefined) {
+        return undefined;
+    }
+    const [x, y, width, height] = values;
+    return { x, y, width, height };
+}
+
+/**
+ * Convert an XML element and its descendants to PageElements
+ */
+function toPageElement(node: XmlElement, indexPath: number[], parent?: PageElement): PageElement {
+    const attributes: Record<string, string> = {};
+    for (let i = 0; i < node.attributes.length; i++) {
+        const attribute = node.attributes.item(i);
+        if (attribute) {
+            attributes[attribute.name] = attribute.value;
+        }
+    }
+
+    const element: PageElement = {
+        type: attributes.type ?? node.tagName,
+        name: attributes.name || undefined,
+        label: attributes.label || undefined,
+        value: attributes.value || undefined,
+        visible: attributes.visible === 'true',
+        enabled: attributes.enabled !== 'false',
+        accessible: attributes.accessible === 'true',
+        bounds: parseBounds(attributes),
+        indexPath,
+        parent,
+        children: [],
+        attributes,
+    };
+
+    let childIndex = 0;
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        if (child.nodeType === child.ELEMENT_NODE) {
+            element.children.push(toPageElement(child as XmlElement, [...indexPath, childIndex++], element));
+        }
+    }
+    return element;
+}
+
+/**
+ * Parse a page source (as returned by browser.getPageSource()) into an element tree
+ * @param xml The page source XML
+ * @returns The root element (usually XCUIElementTypeApplication)
+ * @throws Error when the XML has no root element
+ */
+export function parsePageSource(xml: string): PageElement {
+    const document = new DOMParser({ onError: () => undefined }).parseFromString(xml, 'text/xml');
+    let root = document.documentElement;
+    // Appium wraps the tree in <AppiumAUT>
+    if (root?.tagName === 'AppiumAUT') {
+        let child = root.firstChild;
+        while (child && child.nodeType !== child.ELEMENT_NODE) {
+            child = child.nextSibling;
+        }
+        root = child as XmlElement | null;
+    }
+    if (!root) {
+        throw new Error('Page source has no root element');
+    }
+    return toPageElement(root, []);
+}
+
+/**
+ * All elements of a tree in document order, the root included
+ */
+export function flattenElements(root: PageElement): PageElement[] {
+    return [root, ...root.children.flatMap(flattenElements)];
+}
+
+/**
+ * Escape a value for an XML attribute
+ */
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Render an element and its descendants as indented XML, e.g. for reports
+ * @param maxDepth Levels of descendants to include; deeper children are elided
+ */
+export function toXmlSnippet(element: PageElement, maxDepth = 2, indent = ''): string {
+    const attributes = ['name', 'label', 'value', 'enabled', 'visible', 'x', 'y', 'width', 'height']
+        .filter((key) => element.attributes[key] !== undefined)
+        .map((key) => ` ${key}="${escapeAttribute(element.attributes[key])}"`)
+        .join('');
+    const open = `${indent}<${element.type}${attributes}`;
+
+    if (element.children.length === 0) {
+        return `${open}/>`;
+    }
+    if (maxDepth === 0) {
+        return `${open}><!-- ${element.children.length} child element(s) --></${element.type}>`;
+    }
+    return [
+        `${open}>`,
+        ...element.children.map((child) => toXmlSnippet(child, maxDepth - 1, `${indent}  `)),
+        `${indent}</${element.type}>`,
+    ].join('\n');
+}
+
+/**
+ * Short description of an element for logs and reports, e.g. `XCUIElementTypeButton name="save" label="Save"`
+ */
+export function describeElement(element: PageElement): string {
+    const name = element.name ? ` name="${element.name}"` : '';
+    const label = element.label && element.label !== element.name ? ` label="${element.label}"` : '';
+    return `${element.type}${name}${label}`;
+}
+
+/**
+ * Ancestors of an element, nearest first
+ */
+export function getAncestors(element: PageElement): PageElement[] {
+    const ancestors: PageElement[] = [];
+    for (let parent = element.parent; parent; parent = parent.parent) {
+        ancestors.push(parent);
+    }
+    return ancestors;
+}
+
+/**
+ * Accessibility ids of the ancestors that have one, outermost first and without the application root,
+ * e.g. `['workout-day-1']` for a `sets-input-*` field of the first workout day
+ */
+export function getNamedAncestry(element: PageElement): string[] {
+    return getAncestors(element)
+        .filter((ancestor) => ancestor.parent && ancestor.name)
+        .map((ancestor) => ancestor.name as string)
+        .reverse();
+}
+
+/**
+ * Index path as text, e.g. `0/0/2`
+ */
+export function formatIndexPath(element: PageElement): string {
+    return element.indexPath.join('/');
+}
+
+/**
+ * Bounds as text, e.g. `(16, 220) 343×44`
+ */
+export function formatBounds(bounds: Bounds): string {
+    return `(${bounds.x}, ${bounds.y}) ${bounds.width}×${bounds.height}`;
+}
+
+/**
+ * Screen name of a capture file: `dom-tree-<screen>.xml`, with a timestamp or a numeric suffix
+ * for repeated captures, e.g. `dom-tree-weekly-report-2.xml` → `weekly-report`
+ */
+export function getCaptureScreenName(filePath: string): string {
+    return path.basename(filePath, '.xml').replace(/^dom-tree-/, '').replace(/-\d+$/, '');
+}
@@ -0,0 +1,63 @@
+import { createFluentProxy, type FluentProxy } from './fluent-proxy.js';
+import type { FluentPlan, FluentPlanStep } from './fluent-plan.js';
+import type Page from '../../tests/page-objects/page.js';
+
+/**
+ * A chain method looked up by the name recorded in the plan
+ */
+type ReplayStep = (...args: unknown[]) => FluentProxy<Page>;
+
+/**
+ * Replay a recorded plan against the current session, one fluent chain per recorded chain.
+ * Steps run through the fluent proxy, so transitions, retries, soft assertions and
+ * FluentChainError reporting behave exactly as in the original spec.
+ * Capture steps are skipped because their query functions are not part of the plan.
+ * @param plan The plan to replay (see loadPlan())
+ * @param pages Page object instances by class name, e.g. from tests/page-objects/pages.ts
+ *
+ * @example
+ * ```typescript
+ * it('replays the recorded journey', async () => {
+ *     await replayPlan(loadPlan('artifacts/plans/journey.json'), pages);
+ * });
+ * ```
+ */
+export async function replayPlan(plan: FluentPlan, pages: Record<string, object>): Promise<void> {
+    const chains = new Map<number, FluentPlanStep[]>();
+    for (const step of plan.steps) {
+        chains.set(step.chain, [...(chains.get(step.chain) ?? []), step]);
+    }
+
+    for (const [chainIndex, steps] of chains) {
+        const rootPage = pages[steps[0].page];
+        if (!rootPage) {
+            throw new Error(`Plan chain ${chainIndex}: unknown page "${steps[0].page}". Known pages: ${Object.keys(pages).join(', ')}`);
+        }
+
+        console.log(`▶️  Replaying chain ${chainIndex} (${steps.length} steps) from ${steps[0].page}`);
+        // Recorded pages are page objects; the chain is typed on the base Page and steps are looked up by name
+        let chain = createFluentProxy(rootPage as Page, { dryRun: false });
+        let soft = false;
+
+        for (const step of steps) {
+            if (step.method === 'capture') {
+                console.log(`   Skipping capture("${String(step.args[0])}") - query functions are not recorded`);
+                continue;
+            }
+            if (step.soft && !soft) {
+                chain = chain.softly();
+                soft = true;
+            }
+            if (step.retry) {
+                chain = chain.withRetry(step.retry);
+            }
+            const method = (chain as unknown as Record<string, unknown>)[step.method];
+            if (typeof method !== 'function') {
+                throw new Error(`Plan chain ${chainIndex}: ${step.page} has no method "${step.method}"`);
+            }
+            chain = (method as ReplayStep)(...step.args);
+        }
+
+        await chain.execute();
+    }
+}
@@ -0,0 +1,20 @@
+import * as fs from 'node:fs';
+import allureReporter from '@wdio/allure-reporter';
+
+/**
+ * Attach a file to the running test in the Allure results, and reference it in the JUnit XML
+ * through the `[[ATTACHMENT|path]]` convention of the JUnit attachments plugin
+ * (the line is printed to the test's console log, which the JUnit reporter writes to system-out).
+ * Call from within the test or its afterTest hook.
+ * @param name Attachment name shown in Allure
+ * @param filePath File to attach
+ * @param contentType MIME type, e.g. 'image/png'
+ */
+export async function attachToReports(name: string, filePath: string, contentType: string): Promise<void> {
+    try {
+        await allureReporter.addAttachment(name, fs.readFileSync(filePath), contentType);
+    } catch (error) {
+        console.log(`⚠️  Could not attach ${name} to the Allure results: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    console.log(`[[ATTACHMENT|${filePath}]]`);
+}
@@ -0,0 +1,160 @@
+import { browser } from '@wdio/globals';
+
+/**
+ * Details about the failed attempt, passed to recovery actions
+ */
+export interface RetryContext {
+    /** 1-based number of the attempt that just failed */
+    attempt: number;
+    /** Total number of attempts allowed by the policy */
+    attempts: number;
+    /** Error thrown by the failed attempt */
+    error: unknown;
+    /** Label of the retried action, used in logs */
+    label: string;
+}
+
+/**
+ * Describes how often and how an action is retried
+ */
+export interface RetryPolicy {
+    /** Total number of attempts, including the first one */
+    attempts: number;
+    /**
+     * Delay before the next attempt in ms: a fixed delay, or an exponential backoff
+     * starting at `initialMs` and multiplied by `factor` (default 2) up to `maxMs`
+     */
+    backoff?: number | { initialMs: number; factor?: number; maxMs?: number };
+    /** Recovery action run between attempts (dismiss alert, scroll, re-wait for screen) */
+    recover?: (context: RetryContext) => Promise<unknown>;
+    /** Label used in attempt logs */
+    label?: string;
+}
+
+/**
+ * Error thrown when every attempt of a retried action failed
+ */
+export class RetryExhaustedError extends Error {
+    public readonly label: string;
+    public readonly attempts: number;
+
+    constructor(label: string, attempts: number, cause: unknown) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(`${label} failed after ${attempts} attempt(s): ${reason}`, { cause });
+        this.name = 'RetryExhaustedError';
+        this.label = label;
+        this.attempts = attempts;
+    }
+}
+
+/**
+ * Delay before the attempt following `attempt` (1-based)
+ */
+function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+    const { backoff } = policy;
+    if (backoff === undefined) {
+        return 0;
+    }
+    if (typeof backoff === 'number') {
+        return backoff;
+    }
+    const delay = backoff.initialMs * Math.pow(backoff.factor ?? 2, attempt - 1);
+    return backoff.maxMs !== undefined ? Math.min(delay, backoff.maxMs) : delay;
+}
+
+/**
+ * Run an action until it succeeds or the policy's attempts are used up.
+ * Between attempts the recovery action runs (its own failures are logged and ignored),
+ * then the backoff delay is waited.
+ * @param action The action to run, receives the 1-based attempt number
+ * @param policy How often to retry, how long to wait and how to recover
+ * @returns The result of the first successful attempt
+ * @throws RetryExhaustedError with the last error as `cause` when all attempts failed
+ *
+ * @example
+ * ```typescript
+ * await retry(() => this.waitForScreen(), {
+ *     attempts: 3,
+ *     backoff: 1000,
+ *     recover: recoveries.dismissAlert(),
+ *     label: 'wait for My Routines',
+ * });
+ * ```
+ */
+export async function retry<R>(action: (attempt: number) => Promise<R>, policy: RetryPolicy): Promise<R> {
+    const label = policy.label ?? 'action';
+    const attempts = Math.max(1, policy.attempts);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const result = await action(attempt);
+            if (attempt > 1) {
+                console.log(`🔁 ${label}: succeeded on attempt ${attempt}/${attempts}`);
+            }
+            return result;
+        } catch (error) {
+            const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+            if (attempt >= attempts) {
+                console.log(`🔁 ${label}: attempt ${attempt}/${attempts} failed: ${reason}`);
+                throw new RetryExhaustedError(label, attempts, error);
+            }
+
+            const delay = getBackoffDelay(policy, attempt);
+            console.log(`🔁 ${label}: attempt ${attempt}/${attempts} failed: ${reason} - retrying${delay ? ` in ${delay}ms` : ''}`);
+
+            if (policy.recover) {
+                try {
+                    await policy.recover({ attempt, attempts, error, label });
+                } catch (recoverError) {
+                    console.log(`🔁 ${label}: recovery failed: ${recoverError instanceof Error ? recoverError.message : String(recoverError)}`);
+                }
+            }
+            if (delay > 0) {
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+}
+
+/**
+ * Common recovery actions to use as `RetryPolicy.recover`
+ */
+export const recoveries = {
+    /**
+     * Dismiss a system/app alert if one is shown
+     */
+    dismissAlert: () => async () => {
+        try {
+            const alert = await browser.getAlertText();
+            if (alert) {
+                console.log(`⚠️  Dismissing alert: ${alert}`);
+                await browser.dismissAlert();
+            }
+        } catch {
+            // No alert present
+        }
+    },
+
+    /**
+     * Swipe the screen, e.g. to reveal an element below the fold
+     */
+    swipe: (direction: 'up' | 'down' | 'left' | 'right', percent = 0.3) => async () => {
+        await browser.swipe({ direction, percent });
+    },
+
+    /**
+     * Wait for a page's screen again before the next attempt
+     */
+    waitForScreen: (page: { waitForScreen(): Promise<unknown> }) => async () => {
+        await page.waitForScreen();
+    },
+
+    /**
+     * Run several recovery actions in order
+     */
+    sequence: (...actions: Array<(context: RetryContext) => Promise<unknown>>) => async (context: RetryContext) => {
+        for (const action of actions) {
+            await action(context);
+        }
+    },
+};
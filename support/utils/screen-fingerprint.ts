@@ -0,0 +1,126 @@
+import * as fs from 'node:fs';
+import { flattenElements, parsePageSource, type PageElement } from './page-source.js';
+
+/**
+ * Screens of the app, named after their page objects (without `Page`), plus system alerts and unknown screens
+ */
+export type ScreenName =
+    | 'MyRoutines'
+    | 'CreateRoutine'
+    | 'RoutineDetail'
+    | 'ManageWorkoutDay'
+    | 'ManageExercise'
+    | 'WeeklyReport'
+    | 'SystemAlert'
+    | 'Unknown';
+
+/**
+ * What identifies a screen in the page source: the testID of its root view, and the navigation bar title
+ * as a fallback for builds where the root view has no testID
+ */
+export interface ScreenFingerprint {
+    screen: ScreenName;
+    screenId: string;
+    title: string;
+}
+
+export const SCREEN_FINGERPRINTS: ScreenFingerprint[] = [
+    { screen: 'MyRoutines', screenId: 'routine-list-screen', title: 'My Routines' },
+    { screen: 'CreateRoutine', screenId: 'create-routine-screen', title: 'Create Routine' },
+    { screen: 'RoutineDetail', screenId: 'routine-detail-screen', title: 'Routine Details' },
+    { screen: 'ManageWorkoutDay', screenId: 'manage-workout-day-screen', title: 'Manage Workout Day' },
+    { screen: 'ManageExercise', screenId: 'manage-exercise-screen', title: 'Manage Exercise' },
+    { screen: 'WeeklyReport', screenId: 'weekly-report-screen', title: 'Weekly Report' },
+];
+
+/**
+ * Result of a screen identification
+ */
+export interface ScreenMatch {
+    screen: ScreenName;
+    /** What matched, e.g. `~routine-detail-screen` or `title "Routine Details"` */
+    evidence?: string;
+    /** Title and buttons of the alert, for SystemAlert */
+    alert?: { title?: string; buttons: string[] };
+}
+
+/**
+ * The alert shown over the app, if any
+ */
+function findAlert(elements: PageElement[]): ScreenMatch['alert'] | undefined {
+    const alert = elements.find((element) => element.type === 'XCUIElementTypeAlert' && element.visible);
+    if (!alert) {
+        return undefined;
+    }
+    const descendants = flattenElements(alert);
+    return {
+        title: alert.name ?? alert.label,
+        buttons: descendants
+            .filter((element) => element.type === 'XCUIElementTypeButton')
+            .map((element) => element.label ?? element.name ?? '')
+            .filter(Boolean),
+    };
+}
+
+/**
+ * Classify a page source. An alert wins over the screen under it; otherwise the screen ids are matched, then the
+ * navigation bar titles. Screens further back in the navigation stack can stay in the tree, so only visible
+ * elements count, and the last one in document order (the top of the stack) wins.
+ */
+export function identifyScreenFromSource(xml: string): ScreenMatch {
+    const elements = flattenElements(parsePageSource(xml));
+
+    const alert = findAlert(elements);
+    if (alert) {
+        return { screen: 'SystemAlert', evidence: `alert "${alert.title ?? ''}"`, alert };
+    }
+
+    const visible = elements.filter((element) => element.visible);
+    const byScreenId = visible.filter((element) => SCREEN_FINGERPRINTS.some((fingerprint) => fingerprint.screenId === element.name)).pop();
+    if (byScreenId) {
+        const fingerprint = SCREEN_FINGERPRINTS.find((candidate) => candidate.screenId === byScreenId.name)!;
+        return { screen: fingerprint.screen, evidence: `~${fingerprint.screenId}` };
+    }
+
+    const byTitle = visible
+        .filter((element) => element.type === 'XCUIElementTypeStaticText' || element.type === 'XCUIElementTypeNavigationBar')
+        .filter((element) => SCREEN_FINGERPRINTS.some((fingerprint) => fingerprint.title === (element.name ?? element.label)))
+        .pop();
+    if (byTitle) {
+        const fingerprint = SCREEN_FINGERPRINTS.find((candidate) => candidate.title === (byTitle.name ?? byTitle.label))!;
+        return { screen: fingerprint.screen, evidence: `title "${fingerprint.title}"` };
+    }
+
+    return { screen: 'Unknown' };
+}
+
+/**
+ * Classify a saved page source, e.g. the page-source-failure.xml of a test's artifact bundle
+ */
+export function identifyScreenFromFile(filePath: string): ScreenMatch {
+    return identifyScreenFromSource(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Classify the current screen with a single page source fetch
+ */
+export async function identifyCurrentScreen(): Promise<ScreenMatch> {
+    const { browser } = await import('@wdio/globals');
+    try {
+        return identifyScreenFromSource(await browser.getPageSource());
+    } catch (error) {
+        console.log('⚠️ Could not read the page source to identify the screen:', error);
+        return { screen: 'Unknown' };
+    }
+}
+
+/**
+ * Short description of a match for logs and manifests, e.g. `RoutineDetail (~routine-detail-screen)`
+ * or `SystemAlert "Delete Routine" [Cancel, Delete]`
+ */
+export function formatScreenMatch(match: ScreenMatch): string {
+    if (match.alert) {
+        return `SystemAlert "${match.alert.title ?? ''}" [${match.alert.buttons.join(', ')}]`;
+    }
+    return match.evidence ? `${match.screen} (${match.evidence})` : match.screen;
+}
@@ -0,0 +1,124 @@
+import type { ScreenName } from './screen-fingerprint.js';
+
+/**
+ * Values the navigation methods need, e.g. `{ routineName: 'Push Pull', dayName: 'Monday' }`
+ */
+export type NavigationParams = Record<string, string | number | undefined>;
+
+/**
+ * A page-object method that moves from one screen to another
+ */
+export interface ScreenTransition {
+    from: ScreenName;
+    to: ScreenName;
+    /** Page-object method of the `from` screen, e.g. `tapRoutineItem` */
+    method: string;
+    /** Names of the params passed to the method, in order; the transition is usable only when all are given */
+    params: string[];
+}
+
+/**
+ * What the navigator needs from the app: the real one reads the page source and calls page objects,
+ * a fake one lets the graph be tested without a device
+ */
+export interface NavigationDriver {
+    /** Screen currently shown */
+    currentScreen(): Promise<ScreenName>;
+    /** Call a page-object method of a screen */
+    invoke(screen: ScreenName, method: string, args: unknown[]): Promise<void>;
+    /** Wait until a screen is shown; throws when it is not */
+    waitForScreen(screen: ScreenName): Promise<void>;
+}
+
+/**
+ * Thrown when a screen cannot be reached, or a step of the path landed elsewhere
+ */
+export class NavigationError extends Error {
+    public readonly from: ScreenName;
+    public readonly to: ScreenName;
+
+    constructor(from: ScreenName, to: ScreenName, reason: string, options?: { cause?: unknown }) {
+        super(`Cannot navigate from ${from} to ${to}: ${reason}`, options);
+        this.name = 'NavigationError';
+        this.from = from;
+        this.to = to;
+    }
+}
+
+/**
+ * The app's screens and the transitions between them
+ */
+export class ScreenGraph {
+    public readonly transitions: ScreenTransition[];
+
+    constructor(transitions: ScreenTransition[]) {
+        this.transitions = transitions;
+    }
+
+    /**
+     * Shortest list of transitions from one screen to another, using only the transitions whose params are given
+     * @returns The transitions in order (empty when already there), or undefined when there is no path
+     */
+    public findPath(from: ScreenName, to: ScreenName, params: NavigationParams = {}): ScreenTransition[] | undefined {
+        const usable = this.transitions.filter((transition) => transition.params.every((name) => params[name] !== undefined));
+        const previous = new Map<ScreenName, ScreenTransition | undefined>([[from, undefined]]);
+        const queue: ScreenName[] = [from];
+
+        while (queue.length > 0) {
+            const screen = queue.shift()!;
+            if (screen === to) {
+                const path: ScreenTransition[] = [];
+                for (let step = previous.get(to); step; step = previous.get(step.from)) {
+                    path.unshift(step);
+                }
+                return path;
+            }
+            for (const transition of usable.filter((candidate) => candidate.from === screen && !previous.has(candidate.to))) {
+                previous.set(transition.to, transition);
+                queue.push(transition.to);
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Detect the current screen, find a path to the target screen and walk it, checking each screen on the way.
+ * Nothing is done when the target screen is already shown.
+ * @returns The transitions that were taken
+ * @throws NavigationError when the current screen is unknown or an alert, there is no path with the given params,
+ *         or a step does not land on the expected screen
+ */
+export async function navigateWith(
+    graph: ScreenGraph,
+    driver: NavigationDriver,
+    to: ScreenName,
+    params: NavigationParams = {},
+): Promise<ScreenTransition[]> {
+    const from = await driver.currentScreen();
+    if (from === 'Unknown' || from === 'SystemAlert') {
+        throw new NavigationError(from, to, from === 'SystemAlert' ? 'an alert is shown' : 'the current screen is not recognized');
+    }
+
+    const path = graph.findPath(from, to, params);
+    if (!path) {
+        // The params missing on the path that would be taken if every param were given
+        const allParams = Object.fromEntries(graph.transitions.flatMap((transition) => transition.params).map((name) => [name, '']));
+        const required = [...new Set((graph.findPath(from, to, allParams) ?? []).flatMap((step) => step.params))]
+            .filter((name) => params[name] === undefined);
+        throw new NavigationError(from, to, required.length > 0 ? `no path without ${required.join(', ')}` : 'no path');
+    }
+
+    if (path.length > 0) {
+        console.log(`🧭 Navigating ${[from, ...path.map((step) => step.to)].join(' → ')}`);
+    }
+    for (const step of path) {
+        try {
+            await driver.invoke(step.from, step.method, step.params.map((name) => params[name]));
+            await driver.waitForScreen(step.to);
+        } catch (error) {
+            throw new NavigationError(from, to, `${step.from}.${step.method} did not reach ${step.to}`, { cause: error });
+        }
+    }
+    return path;
+}
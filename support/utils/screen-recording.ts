@@ -0,0 +1,74 @@
+import { browser } from '@wdio/globals';
+import { getArtifacts } from './artifacts.js';
+
+/**
+ * Screen recording settings
+ */
+export interface RecordingOptions {
+    /** Record tests at all; disable with RECORDING=false */
+    enabled: boolean;
+    /** Maximum length of a recording in seconds (RECORDING_MAX_SECONDS, default 300, Appium's limit is 1800) */
+    maxSeconds: number;
+    /** XCUITest video quality (RECORDING_QUALITY, default 'medium') */
+    quality: 'low' | 'medium' | 'high' | 'photo';
+}
+
+let recording = false;
+
+/**
+ * Read the recording settings from the environment
+ */
+export function getRecordingOptions(): RecordingOptions {
+    const quality = process.env.RECORDING_QUALITY;
+    const maxSeconds = Number(process.env.RECORDING_MAX_SECONDS);
+    return {
+        enabled: process.env.RECORDING !== 'false',
+        maxSeconds: maxSeconds > 0 ? Math.min(maxSeconds, 1800) : 300,
+        quality: quality === 'low' || quality === 'high' || quality === 'photo' ? quality : 'medium',
+    };
+}
+
+/**
+ * Start recording the screen. Failures (e.g. ffmpeg missing on the Appium host) are logged
+ * and the test runs without a recording.
+ */
+export async function startScreenRecording(options: RecordingOptions = getRecordingOptions()): Promise<void> {
+    if (!options.enabled) {
+        return;
+    }
+    try {
+        await browser.startRecordingScreen({
+            timeLimit: options.maxSeconds,
+            videoQuality: options.quality,
+            forceRestart: true,
+        });
+        recording = true;
+    } catch (error) {
+        console.log(`⚠️  Could not start screen recording: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Stop the running recording and store it in the test's artifact bundle when asked to
+ * @param keep Whether to save the video (e.g. the test failed or was retried); otherwise it is discarded
+ * @returns The path of the saved video, or undefined
+ */
+export async function stopScreenRecording(keep: boolean): Promise<string | undefined> {
+    if (!recording) {
+        return undefined;
+    }
+    recording = false;
+
+    try {
+        const video = await browser.stopRecordingScreen();
+        if (!keep || !video) {
+            return undefined;
+        }
+        const videoPath = getArtifacts().write('video', 'screen-recording.mp4', Buffer.from(video, 'base64'), 'Screen recording of the test');
+        console.log(`🎥 Screen recording: ${videoPath}`);
+        return videoPath;
+    } catch (error) {
+        console.log(`⚠️  Could not save screen recording: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+    }
+}
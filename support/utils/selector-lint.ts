@@ -0,0 +1,260 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { DOMParser, type Document as XmlDocument } from '@xmldom/xmldom';
+import * as xpath from 'xpath';
+import { findArtifactFiles } from './artifacts.js';
+import { compilePredicate } from './ios-predicate.js';
+import { OBJECTS_DIR, readObjectsFile, templateIdPattern } from './objects-source.js';
+import { flattenElements, getCaptureScreenName, parsePageSource, type PageElement } from './page-source.js';
+
+/** Stored DOM captures the selectors are checked against (dom-tree-<screen>.xml files) */
+export const SELECTOR_CORPUS_DIR = path.join(process.cwd(), 'tests', 'dom-corpus');
+/** Files whose `-ios predicate string:` selectors are checked, besides the objects layer */
+export const PREDICATE_FILES = [path.join(process.cwd(), 'support', 'utils', 'common.ts')];
+
+const PREDICATE_PREFIX = '-ios predicate string:';
+
+/**
+ * A selector found in the code
+ */
+export interface LintSelector {
+    /** `<file>:<line>`, relative to the project root */
+    location: string;
+    /** e.g. `WeeklyReportObjects.reloadButton`, or the variable holding a predicate */
+    owner: string;
+    strategy: 'accessibility id' | 'xpath' | 'predicate';
+    /** The selector as written */
+    selector: string;
+    /** The selector with `${...}` interpolations replaced for evaluation */
+    evaluated: string;
+    /** Built from parameters, so several matches across parameter values are expected */
+    templated: boolean;
+    /** Used with `$$`, so several matches are expected */
+    all: boolean;
+    /** Screen of the objects file (captures of that screen are preferred) */
+    screen?: string;
+}
+
+/**
+ * A DOM capture of the corpus, parsed for both XPath and element matching
+ */
+export interface CorpusCapture {
+    file: string;
+    screen: string;
+    document: XmlDocument;
+    elements: PageElement[];
+}
+
+export interface LintFinding {
+    selector: LintSelector;
+    severity: 'error' | 'warning';
+    rule: 'no-match' | 'multiple-matches' | 'slow-scan' | 'invalid' | 'no-capture';
+    message: string;
+}
+
+/**
+ * Load every capture of a corpus folder
+ */
+export function loadCorpus(dir: string = SELECTOR_CORPUS_DIR): CorpusCapture[] {
+    return findArtifactFiles('.xml', dir).sort().map((file) => {
+        const xml = fs.readFileSync(file, 'utf-8');
+        return {
+            file,
+            screen: getCaptureScreenName(file),
+            document: new DOMParser({ onError: () => undefined }).parseFromString(xml, 'text/xml'),
+            elements: flattenElements(parsePageSource(xml)).filter((element) => element.parent),
+        };
+    });
+}
+
+/**
+ * Replace template interpolations so a selector can be evaluated: attribute equality with a parameter
+ * becomes a test of the fixed parts (`@label="Delete ${name}"` → `starts-with(@label, "Delete ")`, `@name="${id}"` → `@name`),
+ * positions become 1 and other parameters inside strings are dropped (`contains(@label, "${name}")` then matches any label)
+ */
+function fillTemplate(selector: string): string {
+    return selector
+        .replace(/\[\$\{[^}]*\}\]/g, '[1]')
+        .replace(/(@\w+)\s*=\s*(["'])((?:(?!\2).)*\$\{[^}]*\}(?:(?!\2).)*)\2/g, (_equality, attribute: string, quote: string, value: string) => {
+            const parts = value.split(/\$\{[^}]*\}/);
+            const tests = parts.flatMap((part, i) => {
+                if (!part) {
+                    return [];
+                }
+                return [i === 0 ? `starts-with(${attribute}, ${quote}${part}${quote})` : `contains(${attribute}, ${quote}${part}${quote})`];
+            });
+            return tests.length > 0 ? tests.join(' and ') : attribute;
+        })
+        .replace(/\$\{[^}]*\}/g, '');
+}
+
+/**
+ * Describe a selector literal for linting
+ */
+function toLintSelector(selector: string, location: string, owner: string, all: boolean, screen?: string): LintSelector | undefined {
+    const templated = selector.includes('${');
+    if (selector.startsWith('~')) {
+        return { location, owner, strategy: 'accessibility id', selector, evaluated: selector.slice(1), templated, all, screen };
+    }
+    if (selector.startsWith(PREDICATE_PREFIX)) {
+        const predicate = selector.slice(PREDICATE_PREFIX.length).trim();
+        return { location, owner, strategy: 'predicate', selector, evaluated: fillTemplate(predicate), templated, all, screen };
+    }
+    if (selector.startsWith('/') || selector.startsWith('(')) {
+        return { location, owner, strategy: 'xpath', selector, evaluated: fillTemplate(selector), templated, all, screen };
+    }
+    return undefined;
+}
+
+/**
+ * Predicate string selectors of a source file. Predicates kept in a variable
+ * (`const openSelector = '...'` used as `-ios predicate string:${ openSelector }`) are resolved.
+ */
+function collectPredicates(filePath: string): LintSelector[] {
+    const source = fs.readFileSync(filePath, 'utf-8');
+    const lines = source.split('\n');
+    const relative = path.relative(process.cwd(), filePath);
+    const variables = new Map<string, string>();
+    for (const match of source.matchAll(/const\s+(\w+)\s*=\s*(['"])((?:\\.|(?!\2).)*)\2/g)) {
+        variables.set(match[1], match[3].replace(/\\(.)/g, '$1'));
+    }
+
+    const selectors: LintSelector[] = [];
+    lines.forEach((line, i) => {
+        const literal = line.match(/\$(\$?)\((['"`])-ios predicate string:(.+?)\2\)/);
+        if (!literal) {
+            return;
+        }
+        const variable = literal[3].match(/^\$\{\s*(\w+)\s*\}$/)?.[1];
+        const predicate = variable ? variables.get(variable) : literal[3];
+        if (predicate) {
+            const selector = toLintSelector(`${PREDICATE_PREFIX}${predicate}`, `${relative}:${i + 1}`, variable ?? 'predicate', literal[1] === '$');
+            if (selector) {
+                selectors.push(selector);
+            }
+        }
+    });
+    return selectors;
+}
+
+/** Objects files whose screen is captured under another name, e.g. the report buttons of the My Routines list */
+const OBJECTS_SCREENS: Record<string, string> = {
+    'routine-list': 'my-routines',
+};
+
+/**
+ * Every selector of the objects layer, and the predicate strings of the given files
+ */
+export function collectSelectors(objectsDir: string = OBJECTS_DIR, predicateFiles: string[] = PREDICATE_FILES): LintSelector[] {
+    const selectors: LintSelector[] = [];
+    for (const file of fs.readdirSync(objectsDir).filter((name) => name.endsWith('.objects.ts')).sort()) {
+        const objects = readObjectsFile(path.join(objectsDir, file));
+        const relative = path.relative(process.cwd(), objects.filePath);
+        const name = file.replace(/\.objects\.ts$/, '');
+        const screen = OBJECTS_SCREENS[name] ?? name;
+        for (const member of objects.members) {
+            for (const { value, line, all } of member.selectors) {
+                const selector = toLintSelector(value, `${relative}:${line}`, `${objects.className ?? file}.${member.name}`, all, screen);
+                if (selector) {
+                    selectors.push(selector);
+                }
+            }
+        }
+    }
+    return [...selectors, ...predicateFiles.filter((file) => fs.existsSync(file)).flatMap(collectPredicates)];
+}
+
+/**
+ * Number of elements a selector finds in a capture
+ * @throws Error when the XPath or predicate is invalid
+ */
+export function countMatches(selector: LintSelector, capture: CorpusCapture): number {
+    switch (selector.strategy) {
+        case 'accessibility id': {
+            if (!selector.templated) {
+                return capture.elements.filter((element) => element.name === selector.evaluated).length;
+            }
+            const pattern = templateIdPattern(selector.selector.slice(1));
+            return capture.elements.filter((element) => pattern.test(element.name ?? '')).length;
+        }
+        case 'predicate': {
+            const matches = compilePredicate(selector.evaluated);
+            return capture.elements.filter(matches).length;
+        }
+        case 'xpath': {
+            const result = xpath.select(selector.evaluated, capture.document as unknown as Node);
+            return Array.isArray(result) ? result.length : result ? 1 : 0;
+        }
+    }
+}
+
+/**
+ * Check selectors against a corpus of captures. A selector is checked against the captures of its
+ * screen (`<screen>.objects.ts` ↔ `dom-tree-<screen>.xml`, see OBJECTS_SCREENS); selectors outside the objects layer
+ * (predicates of support/utils/common.ts) against every capture.
+ * - no-capture (warning): the screen has no capture, so its selectors are not checked (one finding per screen)
+ * - no-match (error): no capture has the element
+ * - multiple-matches (error): a capture has several elements for a `$` selector without parameters
+ * - slow-scan (warning): the XPath uses `//`, which walks the whole tree on the device
+ * - invalid (error): the XPath or predicate does not parse
+ */
+export function lintSelectors(selectors: LintSelector[], corpus: CorpusCapture[]): LintFinding[] {
+    const findings: LintFinding[] = [];
+    const uncaptured = new Set<string>();
+
+    for (const selector of selectors) {
+        const captures = selector.screen ? corpus.filter((capture) => capture.screen === selector.screen) : corpus;
+        if (selector.screen && captures.length === 0) {
+            if (!uncaptured.has(selector.screen)) {
+                uncaptured.add(selector.screen);
+                const count = selectors.filter((other) => other.screen === selector.screen).length;
+                findings.push({
+                    selector,
+                    severity: 'warning',
+                    rule: 'no-capture',
+                    message: `no capture for screen ${selector.screen} (dom-tree-${selector.screen}.xml); its ${count} selector(s) are not checked`,
+                });
+            }
+            continue;
+        }
+
+        if (selector.strategy === 'xpath' && selector.selector.includes('//')) {
+            const scans = selector.selector.split('//').length - 1;
+            findings.push({
+                selector,
+                severity: 'warning',
+                rule: 'slow-scan',
+                message: `${scans} descendant scan(s) (//); prefer an accessibility id or a predicate string`,
+            });
+        }
+
+        let counts: Array<{ capture: CorpusCapture; count: number }>;
+        try {
+            counts = captures.map((capture) => ({ capture, count: countMatches(selector, capture) }));
+        } catch (error) {
+            findings.push({ selector, severity: 'error', rule: 'invalid', message: error instanceof Error ? error.message : String(error) });
+            continue;
+        }
+
+        if (counts.every(({ count }) => count === 0)) {
+            findings.push({
+                selector,
+                severity: 'error',
+                rule: 'no-match',
+                message: `matches nothing in ${captures.length} capture(s)${selector.screen ? ` of ${selector.screen}` : ''}`,
+            });
+            continue;
+        }
+
+        const ambiguous = counts.find(({ count }) => count > 1);
+        if (ambiguous && !selector.templated && !selector.all) {
+            findings.push({
+                selector,
+                severity: 'error',
+                rule: 'multiple-matches',
+                message: `matches ${ambiguous.count} elements in ${path.basename(ambiguous.capture.file)}`,
+            });
+        }
+    }
+    return findings;
+}
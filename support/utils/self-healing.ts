@@ -0,0 +1,639 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { browser, $ as wdio$, $$ as wdio$$ } from '@wdio/globals';
+import { findArtifactFiles, getArtifacts, RUNS_DIR } from './artifacts.js';
+import { OBJECTS_DIR } from './objects-source.js';
+import { describeElement, flattenElements, parsePageSource, type Bounds, type PageElement } from './page-source.js';
+
+/**
+ * What a selector is expected to find: accessibility id, label, type and last known position
+ */
+export interface LocatorTarget {
+    id?: string;
+    /** Set when the selector only requires the id to contain (or start with) `id` */
+    partialId?: boolean;
+    label?: string;
+    type?: string;
+    /** Position of the element in a previous capture, if one was found */
+    bounds?: Bounds;
+}
+
+/**
+ * An element of the current screen that could replace a broken selector
+ */
+export interface HealingCandidate {
+    element: PageElement;
+    /** Selector finding the candidate */
+    selector: string;
+    /** Weighted score between 0 and 1 */
+    score: number;
+    /** Score of each criterion between 0 and 1, for the criteria the selector tells something about */
+    scores: { id?: number; label?: number; type?: number; position?: number };
+}
+
+/**
+ * Where a selector is declared in the objects layer
+ */
+export interface GetterLocation {
+    file: string;
+    line: number;
+    /** e.g. ManageExerciseObjects.saveButton */
+    getter: string;
+}
+
+/**
+ * One healing attempt, as written to the healing report
+ */
+export interface HealingEvent {
+    timestamp: string;
+    /** The selector that found nothing */
+    selector: string;
+    /** Fluent step that failed, e.g. ManageExercisePage.tapSave */
+    step?: string;
+    getter?: GetterLocation;
+    /** Best candidate's selector: what the getter should be changed to */
+    replacement?: string;
+    candidates: Array<{ selector: string; score: number; element: string }>;
+    /**
+     * healed: the step passed when retried with the replacement, a failure to follow up (fix the getter);
+     * failed: the retry failed too; suggested: not retried (found after the test failed, or the step
+     * had used other elements before the lookup failed); no-candidate: nothing on screen scored high enough
+     */
+    outcome: 'healed' | 'failed' | 'suggested' | 'no-candidate';
+    pageSourcePath?: string;
+}
+
+const WEIGHTS = { id: 0.4, label: 0.3, type: 0.15, position: 0.15 };
+const MIN_SCORE = 0.6;
+
+/** Replacements found by healing (broken selector → replacement), used for the rest of the session */
+const healedSelectors = new Map<string, string>();
+let healingEvents: HealingEvent[] = [];
+/** Selectors looked up through $ / $$ since the last takeElementLookups() call */
+let elementLookups: string[] = [];
+/** Selectors looked up by the step withHealing() is running, as declared by the getters */
+let stepLookups: string[] | undefined;
+/** Page captures of each baseline folder, listed once per session (the folders only grow during a run) */
+const captureFiles = new Map<string, string[]>();
+
+/**
+ * Resolve a selector declared by a getter, remembering the lookup
+ */
+function resolveSelector(selector: string): string {
+    const resolved = healedSelectors.get(selector) ?? selector;
+    stepLookups?.push(selector);
+    elementLookups.push(resolved);
+    if (elementLookups.length > 50) {
+        elementLookups.shift();
+    }
+    return resolved;
+}
+
+/**
+ * Healing-aware `$` for the objects layer: resolves selectors healed earlier in the session
+ * @param selector The selector declared by the getter
+ */
+export function $(selector: string) {
+    return wdio$(resolveSelector(selector));
+}
+
+/**
+ * Healing-aware `$$` for the objects layer
+ * @param selector The selector declared by the getter
+ */
+export function $$(selector: string) {
+    return wdio$$(resolveSelector(selector));
+}
+
+/**
+ * Selectors looked up by the objects layer since the previous call, oldest first
+ * (used to find the element a step acted on)
+ */
+export function takeElementLookups(): string[] {
+    const lookups = elementLookups;
+    elementLookups = [];
+    return lookups;
+}
+
+/**
+ * Whether failed lookups are healed; opt in with SELF_HEALING=true
+ */
+export function isHealingEnabled(): boolean {
+    return process.env.SELF_HEALING === 'true';
+}
+
+/**
+ * Whether an error or one of its causes is a failed assertion (expect-webdriverio, node:assert).
+ * expect-webdriverio also fails this way when the element does not exist (`Expect $(`~id`) to be displayed`):
+ * withHealing() tells the two apart by looking the element up.
+ */
+export function isAssertionFailure(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+        return false;
+    }
+    if ('matcherResult' in error || error.name === 'AssertionError' || /^Expect\b/.test(error.message)) {
+        return true;
+    }
+    return isAssertionFailure(error.cause);
+}
+
+/**
+ * Find the selector of a failed element lookup in a WebdriverIO error or its causes (failed expect-webdriverio
+ * assertions are matched to their element by withHealing())
+ * @returns The selector, or undefined when the error is not about a missing element
+ */
+export function extractFailedSelector(error: unknown): string | undefined {
+    const message = error instanceof Error ? error.message : String(error);
+    const patterns = [
+        /element with selector "(.+?)" because element wasn't found/,
+        /element \("(.+?)"\) still not (?:displayed|existing|clickable|enabled)/,
+    ];
+    for (const pattern of patterns) {
+        const match = message.match(pattern);
+        if (match) {
+            return match[1];
+        }
+    }
+    // Wrapped errors (FluentChainError, RetryExhaustedError) keep the original as cause
+    return error instanceof Error && error.cause ? extractFailedSelector(error.cause) : undefined;
+}
+
+/**
+ * Last location step of an XPath (the part describing the element itself),
+ * or the whole selector for other strategies
+ */
+function lastLocationStep(selector: string): string {
+    let depth = 0;
+    let quote: string | undefined;
+    let start = 0;
+    for (let i = 0; i < selector.length; i++) {
+        const char = selector[i];
+        if (quote) {
+            quote = char === quote ? undefined : quote;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '[' || char === '(') {
+            depth++;
+        } else if (char === ']' || char === ')') {
+            depth--;
+        } else if (char === '/' && depth === 0) {
+            start = i + 1;
+        }
+    }
+    return selector.slice(start);
+}
+
+/**
+ * Describe what a selector looks for. Supports accessibility ids (`~id`), XPath,
+ * iOS predicate strings and class chains.
+ */
+export function describeTarget(selector: string): LocatorTarget {
+    if (selector.startsWith('~')) {
+        return { id: selector.slice(1) };
+    }
+
+    const target: LocatorTarget = {};
+    const lastStep = lastLocationStep(selector);
+    const type = lastStep.match(/XCUIElementType\w+/);
+    if (type) {
+        target.type = type[0];
+    }
+
+    const exactId = lastStep.match(/@name\s*=\s*["'](.+?)["']|\bname\s*==\s*["'](.+?)["']/);
+    const partialId = lastStep.match(/(?:contains|starts-with)\(@name,\s*["'](.+?)["']\)|\bname\s+(?:CONTAINS|BEGINSWITH)\s+["'](.+?)["']/);
+    if (exactId) {
+        target.id = exactId[1] ?? exactId[2];
+    } else if (partialId) {
+        target.id = partialId[1] ?? partialId[2];
+        target.partialId = true;
+    }
+
+    const label = lastStep.match(/@label\s*=\s*["'](.+?)["']|contains\(@label,\s*["'](.+?)["']\)|\blabel\s*(?:==|CONTAINS)\s+["'](.+?)["']/);
+    if (label) {
+        target.label = label[1] ?? label[2] ?? label[3];
+    }
+    return target;
+}
+
+/**
+ * Whether an element satisfies everything a locator target requires (id, type, label)
+ */
+export function matchesTarget(element: PageElement, target: LocatorTarget): boolean {
+    if (target.id !== undefined) {
+        const name = element.name ?? '';
+        if (target.partialId ? !name.includes(target.id) : name !== target.id) {
+            return false;
+        }
+    }
+    if (target.type && element.type !== target.type) {
+        return false;
+    }
+    if (target.label && !(element.label ?? '').includes(target.label)) {
+        return false;
+    }
+    return target.id !== undefined || target.type !== undefined || target.label !== undefined;
+}
+
+/**
+ * Similarity of two strings between 0 and 1, based on the Levenshtein distance
+ */
+export function similarity(a: string, b: string): number {
+    const left = a.toLowerCase();
+    const right = b.toLowerCase();
+    if (left === right) {
+        return 1;
+    }
+    let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= left.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= right.length; j++) {
+            const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return 1 - previous[right.length] / Math.max(left.length, right.length, 1);
+}
+
+/**
+ * Share of the words of an id ("submit-button") found in another id ("exercise-submit-button")
+ */
+export function tokenCoverage(expected: string, actual: string): number {
+    const words = expected.toLowerCase().split(/[-_\s]+/).filter(Boolean);
+    const actualWords = new Set(actual.toLowerCase().split(/[-_\s]+/));
+    return words.length > 0 ? words.filter((word) => actualWords.has(word)).length / words.length : 0;
+}
+
+/**
+ * Score how well an element matches a locator target. Criteria the target says nothing
+ * about (no label, type or known position) are left out.
+ */
+function scoreElement(target: LocatorTarget, element: PageElement, screen?: Bounds): HealingCandidate['scores'] {
+    const scores: HealingCandidate['scores'] = {};
+
+    if (target.id) {
+        scores.id = 0;
+        if (element.name) {
+            scores.id = target.partialId && element.name.toLowerCase().includes(target.id.toLowerCase())
+                ? 1
+                : Math.max(similarity(target.id, element.name), 0.9 * tokenCoverage(target.id, element.name));
+        }
+    }
+
+    if (target.label) {
+        scores.label = 0;
+        if (element.label) {
+            scores.label = element.label.toLowerCase().includes(target.label.toLowerCase())
+                ? 1
+                : similarity(target.label, element.label);
+        }
+    }
+
+    if (target.type) {
+        scores.type = target.type === element.type ? 1 : 0;
+    }
+
+    if (target.bounds && element.bounds) {
+        const distance = Math.hypot(
+            target.bounds.x + target.bounds.width / 2 - (element.bounds.x + element.bounds.width / 2),
+            target.bounds.y + target.bounds.height / 2 - (element.bounds.y + element.bounds.height / 2),
+        );
+        const diagonal = screen ? Math.hypot(screen.width, screen.height) : 1000;
+        scores.position = Math.max(0, 1 - distance / (diagonal / 2));
+    }
+
+    return scores;
+}
+
+/**
+ * Weighted average of the criteria that were scored
+ */
+function weightedScore(scores: HealingCandidate['scores']): number {
+    const criteria = (Object.keys(scores) as Array<keyof typeof WEIGHTS>).filter((key) => scores[key] !== undefined);
+    const totalWeight = criteria.reduce((total, key) => total + WEIGHTS[key], 0);
+    const score = criteria.reduce((total, key) => total + scores[key]! * WEIGHTS[key], 0);
+    return totalWeight > 0 ? Math.round((score / totalWeight) * 100) / 100 : 0;
+}
+
+/**
+ * Selector that finds exactly the given element on the current screen
+ */
+function selectorFor(element: PageElement, elements: PageElement[]): string {
+    if (element.name && elements.filter((e) => e.name === element.name).length === 1) {
+        return `~${element.name}`;
+    }
+    if (element.label && elements.filter((e) => e.type === element.type && e.label === element.label).length === 1) {
+        return `//${element.type}[@label="${element.label}"]`;
+    }
+    const conditions = [
+        element.name ? `@name="${element.name}"` : '',
+        element.label ? `@label="${element.label}"` : '',
+    ].filter(Boolean).join(' and ');
+    const matches = elements.filter((e) => e.type === element.type && e.name === element.name && e.label === element.label);
+    return `(//${element.type}${conditions ? `[${conditions}]` : ''})[${matches.indexOf(element) + 1}]`;
+}
+
+/**
+ * Look up the element a selector used to find in previous page captures,
+ * to know its type, label and position. Only works for accessibility ids.
+ * @param baselineDir Directory of saved page sources, searched recursively
+ * (default: HEALING_BASELINE_DIR, or the artifact bundles in artifacts/runs). Its 50 most recent captures
+ * are listed on the first lookup and reused for the rest of the session.
+ */
+export function findInCaptures(target: LocatorTarget, baselineDir?: string): PageElement | undefined {
+    if (!target.id || target.partialId) {
+        return undefined;
+    }
+
+    const dir = baselineDir ?? process.env.HEALING_BASELINE_DIR ?? RUNS_DIR;
+    if (!captureFiles.has(dir)) {
+        captureFiles.set(dir, findArtifactFiles('.xml', dir).slice(0, 50));
+    }
+    for (const file of captureFiles.get(dir)!) {
+        const xml = fs.readFileSync(file, 'utf-8');
+        if (!xml.includes(`name="${target.id}"`)) {
+            continue;
+        }
+        try {
+            const match = flattenElements(parsePageSource(xml)).find((element) => element.name === target.id);
+            if (match) {
+                return match;
+            }
+        } catch {
+            // Not a page source
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Rank the elements of a page source as replacements for a selector that found nothing
+ * @param selector The broken selector
+ * @param pageSource Current page source XML
+ * @param baselineDir Directory of previous captures to learn the element's former type, label and position
+ * @returns Candidates scoring at least 0.6, best first
+ */
+export function findHealingCandidates(selector: string, pageSource: string, baselineDir?: string): HealingCandidate[] {
+    const target = describeTarget(selector);
+    const previous = findInCaptures(target, baselineDir);
+    if (previous) {
+        target.type ??= previous.type;
+        target.label ??= previous.label;
+        target.bounds = previous.bounds;
+    }
+
+    const root = parsePageSource(pageSource);
+    const elements = flattenElements(root);
+    const screen = elements.find((element) => element.type === 'XCUIElementTypeWindow')?.bounds ?? root.bounds;
+
+    return elements
+        .filter((element) => (element.name || element.label) && element.visible)
+        .filter((element) => element.type !== 'XCUIElementTypeApplication' && element.type !== 'XCUIElementTypeWindow')
+        .map((element) => {
+            const scores = scoreElement(target, element, screen);
+            return { element, selector: selectorFor(element, elements), score: weightedScore(scores), scores };
+        })
+        .filter((candidate) => candidate.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Find the objects-layer getter declaring a selector, matching template literals like
+ * `~add-exercise-button-${id}` against concrete selectors
+ * @param objectsDir Directory of the *.objects.ts files
+ */
+export function findGetterForSelector(selector: string, objectsDir: string = OBJECTS_DIR): GetterLocation | undefined {
+    if (!fs.existsSync(objectsDir)) {
+        return undefined;
+    }
+
+    for (const file of fs.readdirSync(objectsDir).filter((name) => name.endsWith('.objects.ts'))) {
+        const filePath = path.join(objectsDir, file);
+        const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+        const className = lines.join('\n').match(/class\s+(\w+)/)?.[1] ?? file;
+
+        for (let i = 0; i < lines.length; i++) {
+            const literal = lines[i].match(/\$\$?\((['"`])(.+?)\1\)/);
+            if (!literal) {
+                continue;
+            }
+            const pattern = literal[2]
+                .split(/\$\{[^}]*\}/)
+                .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+                .join('.+?');
+            if (!new RegExp(`^${pattern}$`).test(selector)) {
+                continue;
+            }
+
+            let getter = '?';
+            for (let j = i; j >= 0; j--) {
+                const declaration = lines[j].match(/public\s+(?:get\s+)?(\w+)\s*\(/);
+                if (declaration) {
+                    getter = declaration[1];
+                    break;
+                }
+            }
+            return { file: path.relative(process.cwd(), filePath), line: i + 1, getter: `${className}.${getter}` };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Build a healing event for a broken selector from a page source
+ * @param idOnly Keep only candidates found by an accessibility id close to the broken one, as required to heal
+ */
+function analyzeSelector(
+    selector: string,
+    pageSource: string,
+    pageSourcePath: string | undefined,
+    step?: string,
+    idOnly = false,
+): HealingEvent {
+    const candidates = findHealingCandidates(selector, pageSource)
+        .filter((candidate) => !idOnly || (candidate.selector.startsWith('~') && (candidate.scores.id ?? 0) >= MIN_SCORE));
+    return {
+        timestamp: new Date().toISOString(),
+        selector,
+        step,
+        getter: findGetterForSelector(selector),
+        replacement: candidates[0]?.selector,
+        candidates: candidates.slice(0, 3).map(({ selector: candidateSelector, score, element }) => ({
+            selector: candidateSelector,
+            score,
+            element: describeElement(element),
+        })),
+        outcome: candidates.length > 0 ? 'suggested' : 'no-candidate',
+        pageSourcePath,
+    };
+}
+
+/**
+ * Save the page source a healing decision was based on
+ */
+function saveHealingPageSource(pageSource: string, selector: string): string {
+    return getArtifacts().write('page-source', 'healing-page-source.xml', pageSource, `Page source used to heal ${selector}`);
+}
+
+/**
+ * Whether a failed step may be healed: only objects-layer getters looked up by accessibility id,
+ * never verify* steps, whose failure may be the app's and not the selector's
+ */
+function isHealable(selector: string | undefined, step: string): selector is string {
+    return isHealingEnabled()
+        && selector !== undefined
+        && selector.startsWith('~')
+        && !healedSelectors.has(selector)
+        && ![...healedSelectors.values()].includes(selector)
+        && !(step.split('.').pop() ?? step).startsWith('verify')
+        && findGetterForSelector(selector) !== undefined;
+}
+
+/**
+ * Whether a selector declared by a getter finds nothing on the current screen
+ */
+async function isMissing(selector: string): Promise<boolean> {
+    return !(await wdio$(healedSelectors.get(selector) ?? selector).isExisting().catch(() => false));
+}
+
+/**
+ * Selector whose element could not be found by a failed step. Lookup errors name it; a failed assertion
+ * only counts when one of the step's elements does not exist: an assertion on an element that is there
+ * (e.g. not displayed, wrong text) is the app's failure, not a drifted selector.
+ * @param lookups Selectors the step looked up, as declared by the getters
+ */
+async function findMissingSelector(error: unknown, lookups: string[]): Promise<string | undefined> {
+    const selector = extractFailedSelector(error);
+    if (selector) {
+        return selector;
+    }
+    if (!isAssertionFailure(error)) {
+        return undefined;
+    }
+    for (const lookup of new Set(lookups.filter((candidate) => candidate.startsWith('~')))) {
+        if (await isMissing(lookup)) {
+            return lookup;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Run an action and, when it fails because an objects-layer getter found nothing by accessibility id
+ * (a lookup error, or a failed assertion on an element that does not exist), heal the selector from the current page source and retry the action once with the best candidate.
+ * The action is only retried when the broken lookup was its first element lookup, so nothing it did
+ * before is repeated; otherwise the replacement is only suggested.
+ * Healing is opt-in (SELF_HEALING=true). The outcome is recorded for the healing report (see writeHealingReport()),
+ * where a healed step counts as a failure to follow up.
+ * @param action The action to run, e.g. a fluent step
+ * @param step Label of the action used in the report, e.g. `ManageExercisePage.tapSave`
+ * @returns The result of the action or of its healed retry
+ * @throws The original error when the failure is not healable, no candidate is found or the retry fails
+ */
+export async function withHealing<R>(action: () => Promise<R>, step: string): Promise<R> {
+    const lookups: string[] = [];
+    stepLookups = lookups;
+    try {
+        return await action();
+    } catch (error) {
+        const selector = isHealingEnabled() ? await findMissingSelector(error, lookups) : undefined;
+        if (!isHealable(selector, step)) {
+            throw error;
+        }
+
+        let event: HealingEvent;
+        try {
+            const pageSource = await browser.getPageSource();
+            event = analyzeSelector(selector, pageSource, saveHealingPageSource(pageSource, selector), step, true);
+        } catch (healingError) {
+            console.log(`🩹 Could not analyze ${selector}: ${healingError instanceof Error ? healingError.message : String(healingError)}`);
+            throw error;
+        }
+        healingEvents.push(event);
+
+        if (!event.replacement) {
+            console.log(`🩹 ${step}: no replacement found on screen for ${selector}`);
+            throw error;
+        }
+        if (lookups[0] !== selector) {
+            console.log(`🩹 ${step}: ${selector} found nothing, ${event.replacement} suggested (not retried: the step had used ${lookups[0]} before)`);
+            throw error;
+        }
+
+        console.log(`🩹 ${step}: ${selector} found nothing, retrying with ${event.replacement} (score ${event.candidates[0].score})`);
+        healedSelectors.set(selector, event.replacement);
+        try {
+            const result = await action();
+            event.outcome = 'healed';
+            return result;
+        } catch {
+            event.outcome = 'failed';
+            healedSelectors.delete(selector);
+            throw error;
+        }
+    } finally {
+        stepLookups = undefined;
+    }
+}
+
+/**
+ * Suggest a replacement for the selector a failed test could not find, from a saved page source.
+ * Nothing is retried; the suggestion is only added to the healing report. Failed assertions and
+ * selectors without an accessibility id (e.g. a label only) get no suggestion.
+ * @param error The test error
+ * @param pageSourcePath Page source captured after the failure
+ */
+export function suggestHealing(error: unknown, pageSourcePath: string | undefined): HealingEvent | undefined {
+    const selector = extractFailedSelector(error);
+    if (!selector || !pageSourcePath || !fs.existsSync(pageSourcePath)) {
+        return undefined;
+    }
+    if (isAssertionFailure(error) || describeTarget(selector).id === undefined) {
+        return undefined;
+    }
+    if (healingEvents.some((event) => event.selector === selector || event.replacement === selector)) {
+        return undefined;
+    }
+    try {
+        const event = analyzeSelector(selector, fs.readFileSync(pageSourcePath, 'utf-8'), pageSourcePath);
+        healingEvents.push(event);
+        return event;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Print the healing events of the current test, write them to `healing-report.json`
+ * in the test's artifact bundle and reset them. Does nothing without events.
+ * Healed selectors are listed as failures to follow up, also in the test's manifest (`healed`).
+ * @param test The Mocha test
+ * @returns The path of the report, or undefined when nothing was healed or suggested
+ */
+export function writeHealingReport(test: { title?: string; file?: string }): string | undefined {
+    if (healingEvents.length === 0) {
+        return undefined;
+    }
+    const events = healingEvents;
+    healingEvents = [];
+
+    console.log('\n========== SELF-HEALING REPORT ==========');
+    const healed = events.filter((event) => event.outcome === 'healed');
+    if (healed.length > 0) {
+        getArtifacts().manifest.healed = healed.map((event) => `${event.selector} → ${event.replacement}`);
+        console.log(`❌ ${healed.length} step(s) passed only through healing; fix the getters below`);
+    }
+    for (const event of events) {
+        const where = event.getter ? ` (${event.getter.getter}, ${event.getter.file}:${event.getter.line})` : '';
+        console.log(`🩹 Selector drifted: ${event.selector}${where}`);
+        console.log(event.replacement
+            ? `   Replace with: ${event.replacement} (score ${event.candidates[0].score}) - ${event.outcome === 'healed' ? 'healed, follow up' : event.outcome}`
+            : '   No replacement found on screen');
+    }
+
+    const report = JSON.stringify({ test: test.title, file: test.file, healed: getArtifacts().manifest.healed ?? [], events }, null, 2);
+    const reportPath = getArtifacts().write('healing-report', 'healing-report.json', report, 'Drifted selectors and replacements');
+    console.log(`Report: ${reportPath}`);
+    console.log('=========================================\n');
+    return reportPath;
+}
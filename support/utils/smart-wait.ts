@@ -0,0 +1,114 @@
+import type { Bounds } from './page-source.js';
+
+/**
+ * How long and how often a condition is polled
+ */
+export interface WaitOptions {
+    /** Give up after this many ms */
+    timeout?: number;
+    /** Delay between two polls in ms */
+    interval?: number;
+    /** Log the diagnostics and continue instead of throwing, for waits that only let the screen settle */
+    soft?: boolean;
+}
+
+/**
+ * A condition polled until it holds
+ */
+export interface WaitCondition<T> {
+    /** Label used in logs and in the timeout error, e.g. `element tree stable` */
+    label: string;
+    /** Read the current state, e.g. the page source or an element's bounds */
+    sample: () => Promise<T>;
+    /** Whether the wait is over, given the latest sample and the one before (undefined on the first poll) */
+    isDone: (current: T, previous: T | undefined) => boolean;
+    /** Lines explaining why the condition never held, from the last samples (oldest first) */
+    diagnose: (samples: T[]) => string[];
+}
+
+/**
+ * Thrown when a condition did not hold in time; the message lists the diagnostics
+ */
+export class WaitTimeoutError extends Error {
+    public readonly label: string;
+    public readonly elapsed: number;
+    public readonly polls: number;
+    public readonly diagnostics: string[];
+
+    constructor(label: string, elapsed: number, polls: number, diagnostics: string[], cause?: unknown) {
+        super(
+            `Timed out after ${elapsed}ms (${polls} poll(s)) waiting for ${label}` +
+            (diagnostics.length > 0 ? `:\n${diagnostics.map((line) => `  - ${line}`).join('\n')}` : ''),
+            { cause },
+        );
+        this.name = 'WaitTimeoutError';
+        this.label = label;
+        this.elapsed = elapsed;
+        this.polls = polls;
+        this.diagnostics = diagnostics;
+    }
+}
+
+/** Samples kept for the diagnostics of a timed out wait */
+const KEPT_SAMPLES = 5;
+
+/**
+ * Poll a condition until it holds. Sampling errors (e.g. an element not found yet) count as a failed poll.
+ * @returns The sample the condition held on, or undefined when a soft wait timed out
+ * @throws WaitTimeoutError with the condition's diagnostics when the timeout is reached
+ */
+export async function waitForCondition<T>(condition: WaitCondition<T>, options: WaitOptions = {}): Promise<T | undefined> {
+    const { timeout = 5000, interval = 250, soft = false } = options;
+    const startedAt = Date.now();
+    const samples: T[] = [];
+    let polls = 0;
+    let lastError: unknown;
+
+    for (;;) {
+        polls++;
+        try {
+            const current = await condition.sample();
+            const previous = samples[samples.length - 1];
+            samples.push(current);
+            if (samples.length > KEPT_SAMPLES) {
+                samples.shift();
+            }
+            if (condition.isDone(current, previous)) {
+                return current;
+            }
+        } catch (error) {
+            lastError = error;
+        }
+
+        const elapsed = Date.now() - startedAt;
+        if (elapsed + interval > timeout) {
+            const diagnostics = samples.length > 0 ? condition.diagnose(samples) : [];
+            if (lastError) {
+                diagnostics.push(`last poll failed: ${lastError instanceof Error ? lastError.message.split('\n')[0] : String(lastError)}`);
+            }
+            const error = new WaitTimeoutError(condition.label, elapsed, polls, diagnostics, lastError);
+            console.log(`⏱️ ${error.message}${soft ? ' (continuing)' : ''}`);
+            if (soft) {
+                return undefined;
+            }
+            throw error;
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+}
+
+/**
+ * Lines of `after` that are not in `before`, e.g. the elements that appeared or changed between two page sources
+ */
+export function changedLines(before: string, after: string): string[] {
+    const previous = new Set(before.split('\n').map((line) => line.trim()));
+    return after.split('\n').map((line) => line.trim()).filter((line) => line && !previous.has(line));
+}
+
+/**
+ * Whether two bounds are the same, within a tolerance in points
+ */
+export function sameBounds(a: Bounds, b: Bounds, tolerance = 0): boolean {
+    return Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance &&
+        Math.abs(a.width - b.width) <= tolerance && Math.abs(a.height - b.height) <= tolerance;
+}
@@ -0,0 +1,285 @@
+import { createHash } from 'node:crypto';
+import { browser } from '@wdio/globals';
+import { getArtifacts } from './artifacts.js';
+import { formatStep, serializeArg, type FluentStepRecord } from './fluent-errors.js';
+import { addStepListener } from './fluent-proxy.js';
+import { flattenElements, parsePageSource, toXmlSnippet } from './page-source.js';
+import { describeTarget, matchesTarget, takeElementLookups } from './self-healing.js';
+
+/**
+ * One executed step of the timeline: a fluent step, or a page method called directly
+ */
+export interface TimelineEntry {
+    /** e.g. `[addExercise] ManageExercisePage.enterWeight(135)` */
+    step: string;
+    /** Set for page methods called directly (outside a fluent chain), e.g. from a spec hook */
+    direct?: boolean;
+    startedAt: string;
+    durationMs?: number;
+    passed?: boolean;
+    error?: string;
+    /** Ids of the screenshots taken before and after the step */
+    before?: string;
+    after?: string;
+    /** Last selector the step looked up, taken as its target element */
+    selector?: string;
+    /** XML of the target element after the step */
+    domSnippet?: string;
+}
+
+/**
+ * Test fields shown in the timeline header
+ */
+interface TimelineTest {
+    title?: string;
+    parent?: string;
+    file?: string;
+}
+
+// A screenshot taken after a step is reused as the next step's "before" when the next step starts right away
+const SCREENSHOT_REUSE_MS = 500;
+
+let entries: TimelineEntry[] = [];
+/** Screenshots by id (hash of the image), so identical screens are embedded once */
+let images = new Map<string, string>();
+let lastScreenshot: { id: string; takenAt: number } | undefined;
+let removeListener: (() => void) | undefined;
+/** Entry of the step running now; calls made while it runs are part of it */
+let current: TimelineEntry | undefined;
+
+/**
+ * Whether the timeline is recorded; enable with STEP_TIMELINE=true (it takes two screenshots per step)
+ */
+export function isTimelineEnabled(): boolean {
+    return process.env.STEP_TIMELINE === 'true';
+}
+
+/**
+ * Take a screenshot and store it under the hash of its content
+ * @returns The screenshot id, or undefined when the capture failed
+ */
+async function takeTimelineScreenshot(): Promise<string | undefined> {
+    try {
+        const image = await browser.takeScreenshot();
+        const id = createHash('sha1').update(image).digest('hex').slice(0, 12);
+        images.set(id, image);
+        lastScreenshot = { id, takenAt: Date.now() };
+        return id;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * XML of the element a selector finds in the current page source
+ */
+async function captureTargetSnippet(selector: string): Promise<string | undefined> {
+    try {
+        const target = describeTarget(selector);
+        const element = flattenElements(parsePageSource(await browser.getPageSource()))
+            .find((candidate) => matchesTarget(candidate, target));
+        return element ? toXmlSnippet(element) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Add a step to the timeline and take its "before" screenshot
+ */
+async function beginEntry(step: FluentStepRecord, direct?: boolean): Promise<TimelineEntry> {
+    takeElementLookups();
+    const entry: TimelineEntry = { step: formatStep(step), direct, startedAt: new Date().toISOString() };
+    current = entry;
+    entries.push(entry);
+    entry.before = lastScreenshot && Date.now() - lastScreenshot.takenAt < SCREENSHOT_REUSE_MS
+        ? lastScreenshot.id
+        : await takeTimelineScreenshot();
+    return entry;
+}
+
+/**
+ * Complete a step with its outcome, target element and "after" screenshot
+ */
+async function endEntry(entry: TimelineEntry, durationMs: number | undefined, error?: unknown): Promise<void> {
+    current = undefined;
+    entry.durationMs = durationMs;
+    entry.passed = error === undefined;
+    entry.error = error === undefined ? undefined : error instanceof Error ? error.message : String(error);
+    entry.selector = takeElementLookups().pop();
+    if (entry.selector) {
+        entry.domSnippet = await captureTargetSnippet(entry.selector);
+    }
+    entry.after = await takeTimelineScreenshot();
+}
+
+/**
+ * Start recording the steps of a test. Called from the beforeTest hook.
+ */
+export function startTimeline(): void {
+    if (!isTimelineEnabled()) {
+        return;
+    }
+    removeListener?.();
+    entries = [];
+    images = new Map();
+    lastScreenshot = undefined;
+    current = undefined;
+
+    removeListener = addStepListener({
+        beforeStep: async (step: FluentStepRecord) => {
+            await beginEntry(step);
+        },
+        afterStep: async (step: FluentStepRecord, error?: unknown) => {
+            if (current) {
+                await endEntry(current, step.durationMs, error);
+            }
+        },
+    });
+}
+
+/**
+ * Record the page methods called directly (e.g. `await RoutineDetailPage.tapCreateSnapshot()` in a spec hook)
+ * in the timeline, like fluent steps. Only outermost calls become steps: calls made by a running step or
+ * by another page method are part of it. Called from the Page constructor.
+ * @param page Page object whose methods (own and inherited) are wrapped
+ */
+export function recordDirectPageCalls(page: object): void {
+    const methods = new Set<string>();
+    for (let proto = Object.getPrototypeOf(page); proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+        for (const name of Object.getOwnPropertyNames(proto)) {
+            const descriptor = Object.getOwnPropertyDescriptor(proto, name);
+            if (name !== 'constructor' && typeof descriptor?.value === 'function') {
+                methods.add(name);
+            }
+        }
+    }
+
+    for (const method of methods) {
+        const original = (page as Record<string, (...args: unknown[]) => unknown>)[method];
+        Object.defineProperty(page, method, {
+            configurable: true,
+            writable: true,
+            value: function (this: object, ...args: unknown[]) {
+                // Not recording, or called by the step running now
+                if (!removeListener || current) {
+                    return original.apply(this, args);
+                }
+                return (async () => {
+                    const entry = await beginEntry({ index: entries.length + 1, page: page.constructor.name, method, args: args.map(serializeArg) }, true);
+                    const startedAt = Date.now();
+                    try {
+                        const result = await original.apply(this, args);
+                        await endEntry(entry, Date.now() - startedAt);
+                        return result;
+                    } catch (error) {
+                        await endEntry(entry, Date.now() - startedAt, error);
+                        throw error;
+                    }
+                })();
+            },
+        });
+    }
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a self-contained HTML timeline: one card per step with before/after screenshots,
+ * the target selector and its DOM snippet. Screenshots are embedded once and shared by id.
+ */
+export function renderTimelineHtml(test: TimelineTest, passed: boolean | undefined, timeline: TimelineEntry[], screenshots: Map<string, string>): string {
+    const screenshot = (id: string | undefined, caption: string) => id
+        ? `<figure><img data-image="${id}" alt="${caption}"><figcaption>${caption}</figcaption></figure>`
+        : `<figure class="missing"><figcaption>${caption}: no screenshot</figcaption></figure>`;
+
+    const cards = timeline.map((entry, i) => `
+<section class="step ${entry.passed === false ? 'failed' : 'passed'}" id="step-${i + 1}">
+  <h2><span class="index">${i + 1}</span> ${escapeHtml(entry.step)}${entry.direct ? ' <span class="direct">direct call</span>' : ''} <span class="duration">${entry.durationMs ?? '?'}ms</span></h2>
+  ${entry.error ? `<pre class="error">${escapeHtml(entry.error)}</pre>` : ''}
+  <div class="shots">${screenshot(entry.before, 'before')}${screenshot(entry.after, 'after')}</div>
+  ${entry.selector ? `<p class="selector">Target: <code>${escapeHtml(entry.selector)}</code></p>` : ''}
+  ${entry.domSnippet ? `<details><summary>DOM snippet</summary><pre>${escapeHtml(entry.domSnippet)}</pre></details>` : ''}
+</section>`).join('\n');
+
+    const index = timeline.map((entry, i) =>
+        `<a href="#step-${i + 1}" class="${entry.passed === false ? 'failed' : 'passed'}" title="${escapeHtml(entry.step)}">${i + 1}</a>`).join('');
+
+    const imageData = JSON.stringify(Object.fromEntries(screenshots));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(test.title ?? 'Test')} - step timeline</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; margin: 0; background: #f4f5f7; color: #1d1d1f; }
+  header { position: sticky; top: 0; background: #fff; padding: 12px 24px; border-bottom: 1px solid #ddd; z-index: 1; }
+  header h1 { font-size: 18px; margin: 0 0 4px; }
+  header .meta { font-size: 13px; color: #666; }
+  nav { margin-top: 8px; display: flex; flex-wrap: wrap; gap: 4px; }
+  nav a { display: inline-block; min-width: 24px; padding: 2px 4px; text-align: center; font-size: 12px; border-radius: 4px; text-decoration: none; color: #fff; }
+  nav a.passed { background: #34a853; } nav a.failed { background: #d93025; }
+  main { padding: 16px 24px; }
+  .step { background: #fff; border-left: 4px solid #34a853; border-radius: 6px; margin-bottom: 16px; padding: 12px 16px; }
+  .step.failed { border-left-color: #d93025; }
+  .step h2 { font-size: 15px; margin: 0 0 8px; font-family: Menlo, monospace; }
+  .index { display: inline-block; min-width: 24px; color: #888; }
+  .duration { float: right; color: #888; font-weight: normal; }
+  .direct { font-size: 11px; color: #888; font-weight: normal; border: 1px solid #ccc; border-radius: 4px; padding: 0 4px; }
+  .shots { display: flex; gap: 12px; overflow-x: auto; }
+  figure { margin: 0; text-align: center; }
+  figure img { max-height: 480px; border: 1px solid #ddd; border-radius: 4px; }
+  figure.missing { width: 220px; height: 100px; background: #eee; display: flex; align-items: center; justify-content: center; }
+  figcaption { font-size: 12px; color: #666; }
+  pre { background: #f6f8fa; padding: 8px; overflow-x: auto; font-size: 12px; }
+  pre.error { background: #fdecea; color: #a50e0e; white-space: pre-wrap; }
+  .status-passed { color: #34a853; } .status-failed { color: #d93025; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(test.title ?? 'Test')} <span class="status-${passed ? 'passed' : 'failed'}">${passed ? 'passed' : 'failed'}</span></h1>
+  <div class="meta">${escapeHtml(test.parent ?? '')}${test.file ? ` &middot; ${escapeHtml(test.file)}` : ''} &middot; ${timeline.length} steps</div>
+  <nav>${index}</nav>
+</header>
+<main>
+${cards}
+</main>
+<script>
+  const images = ${imageData};
+  document.querySelectorAll('img[data-image]').forEach((img) => {
+    img.src = 'data:image/png;base64,' + images[img.dataset.image];
+  });
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the timeline of the current test to `timeline.html` in its artifact bundle and stop recording.
+ * Called from the afterTest hook.
+ * @returns The path of the HTML file, or undefined when no step was recorded
+ */
+export function writeTimeline(test: TimelineTest, passed?: boolean): string | undefined {
+    removeListener?.();
+    removeListener = undefined;
+    if (entries.length === 0) {
+        return undefined;
+    }
+
+    const html = renderTimelineHtml(test, passed, entries, images);
+    entries = [];
+    images = new Map();
+    lastScreenshot = undefined;
+
+    const filePath = getArtifacts().write('report', 'timeline.html', html, 'Step timeline with screenshots');
+    console.log(`🎞️  Step timeline: ${filePath}`);
+    return filePath;
+}
@@ -0,0 +1,145 @@
+import { getArtifacts } from './artifacts.js';
+
+/**
+ * Time budget of a fluent step or chain
+ */
+export interface TimingBudget {
+    /** Maximum elapsed time in ms */
+    maxMs: number;
+    /** What happens when the budget is exceeded (default: 'warn') */
+    onExceed?: 'warn' | 'fail';
+}
+
+/**
+ * Elapsed time of one executed fluent step
+ */
+export interface StepTiming {
+    /** Index of the chain (execute() call) within the test, starting at 0 */
+    chain: number;
+    /** 1-based position of the step in its chain */
+    step: number;
+    page: string;
+    method: string;
+    args: string[];
+    fragment?: string;
+    durationMs: number;
+    /** Budget that applied to the step, if any */
+    budgetMs?: number;
+    overBudget?: boolean;
+    failed?: boolean;
+}
+
+/**
+ * Timings of one test, as written to timings.json in the test's artifact bundle
+ */
+export interface TestTimingReport {
+    test: string;
+    suite?: string;
+    file?: string;
+    passed?: boolean;
+    totalMs: number;
+    steps: StepTiming[];
+    /** The five slowest steps, slowest first */
+    slowest: StepTiming[];
+}
+
+/**
+ * Error thrown when a step or chain exceeds a budget with `onExceed: 'fail'`
+ */
+export class TimingBudgetError extends Error {
+    public readonly durationMs: number;
+    public readonly budgetMs: number;
+
+    constructor(subject: string, durationMs: number, budgetMs: number) {
+        super(`${subject} took ${durationMs}ms, exceeding its budget of ${budgetMs}ms`);
+        this.name = 'TimingBudgetError';
+        this.durationMs = durationMs;
+        this.budgetMs = budgetMs;
+    }
+}
+
+let timings: StepTiming[] = [];
+let chainCount = 0;
+
+/**
+ * Normalize a budget given as plain milliseconds (warn only) or as a TimingBudget
+ */
+export function toTimingBudget(budget: number | TimingBudget | undefined): TimingBudget | undefined {
+    if (budget === undefined) {
+        return undefined;
+    }
+    return typeof budget === 'number' ? { maxMs: budget, onExceed: 'warn' } : budget;
+}
+
+/**
+ * Warn about, or throw for, an elapsed time over budget
+ * @param subject Describes what was timed, used in the message
+ * @returns true when the budget was exceeded (in 'warn' mode)
+ * @throws TimingBudgetError when the budget was exceeded in 'fail' mode
+ */
+export function checkBudget(subject: string, durationMs: number, budget: TimingBudget | undefined): boolean {
+    if (!budget || durationMs <= budget.maxMs) {
+        return false;
+    }
+    if (budget.onExceed === 'fail') {
+        throw new TimingBudgetError(subject, durationMs, budget.maxMs);
+    }
+    console.log(`⏱️  Slow step: ${subject} took ${durationMs}ms (budget ${budget.maxMs}ms)`);
+    return true;
+}
+
+/**
+ * Record the step timings of one executed chain. Called by the fluent proxy's execute().
+ * @param steps Timings of the steps that ran, without the chain index
+ */
+export function recordChainTimings(steps: Array<Omit<StepTiming, 'chain'>>): void {
+    const chain = chainCount++;
+    timings.push(...steps.map((step) => ({ chain, ...step })));
+}
+
+/**
+ * Clear the recorded timings, e.g. before a test
+ */
+export function resetStepTimings(): void {
+    timings = [];
+    chainCount = 0;
+}
+
+/**
+ * Print the timing table of the current test, write it to `timings.json` in the test's
+ * artifact bundle and reset the recorded timings. Does nothing when no fluent step ran.
+ * @param test The Mocha test (title, parent suite title, file)
+ * @param passed Whether the test passed
+ * @returns The written report, or undefined when nothing was recorded
+ */
+export function reportStepTimings(test: { title?: string; parent?: string; file?: string }, passed?: boolean): TestTimingReport | undefined {
+    if (timings.length === 0) {
+        return undefined;
+    }
+
+    const title = test.title ?? 'unknown-test';
+    const steps = timings;
+    resetStepTimings();
+
+    const report: TestTimingReport = {
+        test: title,
+        suite: test.parent,
+        file: test.file,
+        passed,
+        totalMs: steps.reduce((total, step) => total + step.durationMs, 0),
+        steps,
+        slowest: [...steps].sort((a, b) => b.durationMs - a.durationMs).slice(0, 5),
+    };
+
+    console.log(`\n⏱️  Step timings: ${title} (${steps.length} steps, ${report.totalMs}ms)`);
+    for (const step of steps) {
+        const name = `${step.fragment ? `[${step.fragment}] ` : ''}${step.page}.${step.method}(${step.args.join(', ')})`;
+        const flag = step.failed ? '  ✗ failed' : step.overBudget ? `  ⚠️  over budget (${step.budgetMs}ms)` : '';
+        console.log(`   ${`${step.chain}.${step.step}`.padEnd(6)} ${`${step.durationMs}ms`.padStart(8)}  ${name}${flag}`);
+    }
+
+    const filePath = getArtifacts().write('timings', 'timings.json', JSON.stringify(report, null, 2), 'Fluent step timings');
+    console.log(`⏱️  Timings written: ${filePath}`);
+
+    return report;
+}
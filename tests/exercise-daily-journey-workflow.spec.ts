@@ -1,9 +1,10 @@
 import { createFluentRoutineDetailPage } from './page-objects/routine-detail.page.js';
 import { createFluentMyRoutinesPage } from './page-objects/my-routines.page.js';
-import { createFluentManageExercisePage } from './page-objects/manage-exercise.page.js';
 import { createFluentWeeklyReportPage } from './page-objects/weekly-report.page.js';
+import { addExercise } from './page-objects/manage-exercise.page.js';
 import * as kit from '@chauhaidang/xq-common-kit';
 import {Configuration, RoutinesApi, WorkoutDaysApi, WorkoutDaySetsApi} from 'xq-fitness-write-client';
+import { getApiAxios } from '../support/utils/api-traffic.js';
 import { MuscleGroupId } from './enum.js';
 
 /**
@@ -22,9 +23,9 @@ describe('Exercise Daily Journey Workflow', () => {
         const configuration = new Configuration({
             basePath: 'http://localhost:8080/xq-fitness-write-service/api/v1',
         });
-        routinesApi = new RoutinesApi(configuration);
-        workoutDaysApi = new WorkoutDaysApi(configuration);
-        workoutDaySetsApi = new WorkoutDaySetsApi(configuration);
+        routinesApi = new RoutinesApi(configuration, undefined, getApiAxios());
+        workoutDaysApi = new WorkoutDaysApi(configuration, undefined, getApiAxios());
+        workoutDaySetsApi = new WorkoutDaySetsApi(configuration, undefined, getApiAxios());
     });
 
     beforeEach(async () => {
@@ -109,70 +110,42 @@ describe('Exercise Daily Journey Workflow', () => {
             await browser.activateApp(bundleId);
             
             const myRoutines = createFluentMyRoutinesPage();
-            await myRoutines.waitForScreen().tapRoutineItem(routineName).execute();
-            
             const routineDetail = createFluentRoutineDetailPage();
-            await routineDetail.waitForScreen().execute();
             
             // ===== ADD EXERCISES: Add multiple exercises to muscle groups via UI =====
             console.log('[Step 3] Adding exercises via UI...');
             
             // Add first exercise to Chest muscle group
-            // Routine Detail: tap Exercises → Manage Exercise: tap Add for muscle group
-            await routineDetail.tapExercisesForDay(dayName).execute();
-            const manageExercise = createFluentManageExercisePage();
-            await manageExercise
+            // My Routines → Routine Detail: tap Exercises → Manage Exercise: addExercise fragment ends back on Routine Detail
+            await myRoutines
                 .waitForScreen()
-                .tapAddExerciseForMuscleGroup(muscleGroupName)
-                .enterExerciseName('Bench Press')
-                .enterTotalReps(30)
-                .enterWeight(135)
-                .enterTotalSets(3)
-                .enterNotes('Focus on form')
-                .tapSave()
-                .tapBack()
-                .execute();
-            
-            // Verify Chest sets on Routine Detail (3 sets from Bench Press)
-            await routineDetail
+                .tapRoutineItem(routineName)
+                .waitForScreen()
+                .tapExercisesForDay(dayName)
+                .waitForScreen()
+                .use(addExercise, { muscle: muscleGroupName, name: 'Bench Press', reps: 30, weight: 135, sets: 3, notes: 'Focus on form' })
+                // Verify Chest sets on Routine Detail (3 sets from Bench Press)
                 .waitForScreen()
                 .verifyWorkoutDaySet(dayName, muscleGroupName, 3)
                 .execute();
             
             // Add second exercise to same muscle group (Chest)
-            await routineDetail.tapExercisesForDay(dayName).execute();
-            await manageExercise
-                .waitForScreen()
-                .tapAddExerciseForMuscleGroup(muscleGroupName)
-                .enterExerciseName('Incline Dumbbell Press')
-                .enterTotalReps(24)
-                .enterWeight(50)
-                .enterTotalSets(3)
-                .tapSave()
-                .tapBack()
-                .execute();
-            
             // Verify Chest sets on Routine Detail (6 total: 3 Bench Press + 3 Incline Dumbbell Press)
             await routineDetail
+                .tapExercisesForDay(dayName)
+                .waitForScreen()
+                .use(addExercise, { muscle: muscleGroupName, name: 'Incline Dumbbell Press', reps: 24, weight: 50, sets: 3 })
                 .waitForScreen()
                 .verifyWorkoutDaySet(dayName, muscleGroupName, 6)
                 .execute();
             
             // Add exercise to different muscle group (Back)
-            await routineDetail.tapExercisesForDay(dayName).execute();
-            await manageExercise
-                .waitForScreen()
-                .tapAddExerciseForMuscleGroup(backMuscleGroupName)
-                .enterExerciseName('Pull-ups')
-                .enterTotalReps(30)
-                .enterWeight(0) // Bodyweight
-                .enterTotalSets(4)
-                .tapSave()
-                .tapBack()
-                .execute();
-            
             // Verify Back sets on Routine Detail (4 sets from Pull-ups)
             await routineDetail
+                .tapExercisesForDay(dayName)
+                .waitForScreen()
+                // Bodyweight exercise
+                .use(addExercise, { muscle: backMuscleGroupName, name: 'Pull-ups', reps: 30, weight: 0, sets: 4 })
                 .waitForScreen()
                 .verifyWorkoutDaySet(dayName, backMuscleGroupName, 4)
                 .execute();
@@ -180,50 +153,36 @@ describe('Exercise Daily Journey Workflow', () => {
             // Add Bench Press to day 2 (same exercise for accumulative report validation)
             // Day 1 Bench Press: 30 reps, 135 kg. Day 2 Bench Press: 25 reps, 130 kg.
             // Report aggregates: Bench Press 55 reps, 265 kg
-            await routineDetail.tapExercisesForDay(day2Name).execute();
-            await manageExercise
-                .waitForScreen()
-                .tapAddExerciseForMuscleGroup(muscleGroupName)
-                .enterExerciseName('Bench Press')
-                .enterTotalReps(25)
-                .enterWeight(130)
-                .enterTotalSets(3)
-                .tapSave()
-                .tapBack()
-                .execute();
-
             // Verify Chest sets on day 2 Routine Detail (3 sets from Bench Press)
             await routineDetail
+                .tapExercisesForDay(day2Name)
+                .waitForScreen()
+                .use(addExercise, { muscle: muscleGroupName, name: 'Bench Press', reps: 25, weight: 130, sets: 3 })
                 .waitForScreen()
                 .verifyWorkoutDaySet(day2Name, muscleGroupName, 3)
                 .execute();
             
             // ===== FIRST SNAPSHOT: Create snapshot via UI that captures exercises =====
-            console.log('[Step 4] Creating first snapshot via UI...');
+            // ===== VIEW FIRST REPORT: Navigate back to routines list, then to the weekly report =====
+            console.log('[Step 4] Creating first snapshot via UI and opening weekly report...');
             await routineDetail
                 .waitForScreen()
                 .tapCreateSnapshot()
                 .waitForSnapshotCreationComplete()
-                .execute();
-            
-            // ===== VIEW FIRST REPORT: Navigate to weekly report and verify exercise totals =====
-            console.log('[Step 5] Viewing weekly report and verifying exercise totals...');
-            // Navigate back to routines list first
-            await routineDetail.tapBack().execute();
-            await myRoutines.waitForScreen().execute();
-            
-            // Navigate to weekly report
-            await myRoutines.waitForScreen().tapReportButtonByName(routineName).execute();
-            
-            const weeklyReport = createFluentWeeklyReportPage();
-            await weeklyReport
+                .tapBack()
+                .waitForScreen()
+                .tapReportButtonByName(routineName)
                 .waitForScreen()
                 .waitForLoadingToComplete()
                 .verifyReportDisplayed()
                 .execute();
             
             // Verify exercise totals are displayed (Bench Press aggregated from day 1 + day 2)
+            console.log('[Step 5] Verifying exercise totals on weekly report...');
+            const weeklyReport = createFluentWeeklyReportPage();
+            // Soft assertions: every wrong total is reported at the end instead of only the first one
             await weeklyReport
+                .softly()
                 .verifyExerciseTotalDisplayed('Bench Press', 55, 265) // Accumulative: day 1 (30 reps, 135 kg) + day 2 (25 reps, 130 kg) = 55 reps, 265 kg
                 .verifyExerciseTotalDisplayed('Incline Dumbbell Press', 24, 50) // totalReps: 24, weight: 50 kg
                 .verifyExerciseTotalDisplayed('Pull-ups', 30, 0) // totalReps: 30, weight: 0 kg (bodyweight)
@@ -232,6 +191,7 @@ describe('Exercise Daily Journey Workflow', () => {
             
             // Verify muscle group totals (aggregated from exercises across both days)
             await weeklyReport
+                .softly()
                 .verifyMuscleGroupTotal('Chest', 9) // Day 1: 6 sets + Day 2: 3 sets (Bench Press) = 9
                 .verifyMuscleGroupTotal('Back', 4) // 4 sets (Pull-ups)
                 .execute();
@@ -1,8 +1,10 @@
-import RoutineDetailPage, { createFluentRoutineDetailPage } from './page-objects/routine-detail.page.js';
+import { createFluentRoutineDetailPage } from './page-objects/routine-detail.page.js';
 import { createFluentMyRoutinesPage } from './page-objects/my-routines.page.js';
 import { createFluentCreateRoutinePage } from './page-objects/create-routine.page.js';
+import { navigateTo } from './page-objects/navigation.js';
 import * as kit from '@chauhaidang/xq-common-kit';
 import {Configuration, RoutinesApi, WorkoutDaysApi, WorkoutDaySetsApi} from 'xq-fitness-write-client';
+import { getApiAxios } from '../support/utils/api-traffic.js';
 import { MuscleGroupId } from './enum.js';
 
 describe('Manage Routine', () => {
@@ -17,9 +19,9 @@ describe('Manage Routine', () => {
         const configuration = new Configuration({
             basePath: 'http://localhost:8080/xq-fitness-write-service/api/v1',
         });
-        routinesApi = new RoutinesApi(configuration);
-        workoutDaysApi = new WorkoutDaysApi(configuration);
-        workoutDaySetsApi = new WorkoutDaySetsApi(configuration);
+        routinesApi = new RoutinesApi(configuration, undefined, getApiAxios());
+        workoutDaysApi = new WorkoutDaysApi(configuration, undefined, getApiAxios());
+        workoutDaySetsApi = new WorkoutDaySetsApi(configuration, undefined, getApiAxios());
     });
 
 
@@ -34,11 +36,8 @@ describe('Manage Routine', () => {
         // Clean up UI-created routines (by name)
         if (trackRoutineNames.length > 0) {
             try {
-                // Navigate back if we're on RoutineDetailPage
-                if (await RoutineDetailPage.isScreenDisplayed()) {
-                    await RoutineDetailPage.tapBack();
-                    await browser.pause(500);
-                }
+                // Return to My Routines from wherever the test stopped
+                await navigateTo('MyRoutines').catch((e) => console.log('Could not navigate to My Routines:', e));
                 
                 // Delete each UI-created routine by name
                 for (const routineName of trackRoutineNames) {
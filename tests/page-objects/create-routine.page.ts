@@ -1,7 +1,8 @@
-import { expect, browser } from '@wdio/globals';
+import { expect } from '@wdio/globals';
 import CreateRoutineObjects from './objects/create-routine.objects.js';
-import Page from './page.js';
-import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
+import Page, { type PageElementRef } from './page.js';
+import MyRoutinesPage from './my-routines.page.js';
+import { createFluentProxy, type FluentProxyOptions } from '../../support/utils/fluent-proxy.js';
 
 /**
  * Page object for the "Create Routine" form screen
@@ -9,6 +10,20 @@ import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
  * @internal
  */
 class CreateRoutinePage extends Page {
+    /**
+     * Closing the success popup or going back lands on My Routines
+     */
+    public readonly transitions = {
+        closePopup: () => MyRoutinesPage,
+        tapBack: () => MyRoutinesPage,
+    };
+
+    /**
+     * The Active label sits next to the inputs and has no action
+     */
+    protected keyboardSafeAreas(): PageElementRef[] {
+        return [CreateRoutineObjects.labelActive];
+    }
 
     /**
      * Enter routine name
@@ -56,34 +71,11 @@ class CreateRoutinePage extends Page {
         return this;
     }
 
-    /**
-     * Hide keyboard using the best method for iOS
-     */
-    private async hideKeyboard() {
-        try {
-            await CreateRoutineObjects.labelActive.click();
-            await browser.pause(200);
-        } catch (error) {
-            console.error('Keyboard dismissal failed', error);
-        }
-        
-        try {
-            await browser.waitUntil(async () => {
-                return !(await browser.isKeyboardShown());
-            }, {
-                timeout: 2000,
-                timeoutMsg: 'Keyboard did not hide within timeout'
-            });
-        } catch (error) {
-            console.log('Keyboard visibility check completed');
-        }
-    }
-
     /**
      * Tap the Create Routine button
      */
     public async tapCreate() {
-        await this.hideKeyboard();
+        await this.dismissKeyboard({ soft: true });
         await expect(CreateRoutineObjects.createButton).toBeDisplayed();
         
         const isEnabled = await CreateRoutineObjects.createButton.isEnabled();
@@ -144,4 +136,4 @@ export default new CreateRoutinePage();
  *     .execute();
  * ```
  */
-export const createFluentCreateRoutinePage = () => createFluentProxy(new CreateRoutinePage());
+export const createFluentCreateRoutinePage = (options?: FluentProxyOptions) => createFluentProxy(new CreateRoutinePage(), options);
@@ -1,8 +1,8 @@
 import { expect, browser } from '@wdio/globals';
 import ManageExerciseObjects from './objects/manage-exercise.objects.js';
-import Page from './page.js';
-import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
-import { logger } from '@chauhaidang/xq-common-kit';
+import Page, { type KeyboardStrategy, type PageElementRef } from './page.js';
+import RoutineDetailPage from './routine-detail.page.js';
+import { createFluentProxy, defineChain, type FluentProxy, type FluentProxyOptions } from '../../support/utils/fluent-proxy.js';
 
 /**
  * Page object for the "Manage Exercise" screen
@@ -10,6 +10,25 @@ import { logger } from '@chauhaidang/xq-common-kit';
  * @internal
  */
 class ManageExercisePage extends Page {
+    /**
+     * Back returns to the Routine Detail screen
+     */
+    public readonly transitions = {
+        tapBack: () => RoutineDetailPage,
+    };
+
+    /**
+     * Notes is multi-line, so its Return key adds a line instead of closing the keyboard
+     */
+    protected readonly keyboardStrategies: KeyboardStrategy[] = ['hideKeyboard', 'safeArea'];
+
+    /**
+     * The Notes label (shown as "Notes (optional)" or "Notes") has no action
+     */
+    protected keyboardSafeAreas(): PageElementRef[] {
+        return [ManageExerciseObjects.notesOptionalLabel, ManageExerciseObjects.notesLabel];
+    }
+
     /**
      * Wait for the Manage Exercise screen to be displayed
      */
@@ -19,7 +38,7 @@ class ManageExercisePage extends Page {
         } catch (error) {
             await expect(ManageExerciseObjects.screenTitle).toBeDisplayed({ wait: 10000 });
         }
-        await browser.pause(500);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -32,9 +51,8 @@ class ManageExercisePage extends Page {
         await expect(exerciseNameInput).toBeDisplayed({ wait: 5000 });
         await expect(exerciseNameInput).toBeEnabled({ wait: 2000 });
         await exerciseNameInput.click();
-        await browser.pause(200);
         await exerciseNameInput.setValue(exerciseName);
-        await browser.pause(200);
+        await this.waitForValue(exerciseNameInput, exerciseName, { soft: true });
         return this;
     }
 
@@ -47,9 +65,8 @@ class ManageExercisePage extends Page {
         await expect(totalRepsInput).toBeDisplayed({ wait: 5000 });
         await expect(totalRepsInput).toBeEnabled({ wait: 2000 });
         await totalRepsInput.click();
-        await browser.pause(200);
         await totalRepsInput.setValue(totalReps.toString());
-        await browser.pause(200);
+        await this.waitForValue(totalRepsInput, totalReps, { soft: true });
         return this;
     }
 
@@ -62,9 +79,8 @@ class ManageExercisePage extends Page {
         await expect(weightInput).toBeDisplayed({ wait: 5000 });
         await expect(weightInput).toBeEnabled({ wait: 2000 });
         await weightInput.click();
-        await browser.pause(200);
         await weightInput.setValue(weight.toString());
-        await browser.pause(200);
+        await this.waitForValue(weightInput, weight, { soft: true });
         return this;
     }
 
@@ -78,18 +94,16 @@ class ManageExercisePage extends Page {
         // Swipe up so Total Sets is visible (keyboard may cover lower fields)
         try {
             await browser.swipe({ direction: 'up', percent: 0.2 });
-            await browser.pause(300);
         } catch {
             // ignore
         }
         await totalSetsInput.scrollIntoView();
-        await browser.pause(500);
+        await this.waitForElementToStopMoving(totalSetsInput, { soft: true });
         await expect(totalSetsInput).toBeDisplayed({ wait: 5000 });
         await expect(totalSetsInput).toBeEnabled({ wait: 2000 });
         await totalSetsInput.click();
-        await browser.pause(200);
         await totalSetsInput.setValue(totalSets.toString());
-        await browser.pause(200);
+        await this.waitForValue(totalSetsInput, totalSets, { soft: true });
         return this;
     }
 
@@ -105,20 +119,18 @@ class ManageExercisePage extends Page {
         }
         try {
             await browser.swipe({ direction: 'up', percent: 0.2 });
-            await browser.pause(300);
         } catch {
             // ignore
         }
         await notesInput.scrollIntoView();
-        await browser.pause(500);
+        await this.waitForElementToStopMoving(notesInput, { soft: true });
         const displayed = await notesInput.isDisplayed().catch(() => false);
         if (!displayed) {
             return this;
         }
         await notesInput.click();
-        await browser.pause(200);
         await notesInput.setValue(notes);
-        await browser.pause(200);
+        await this.waitForValue(notesInput, notes, { soft: true });
         return this;
     }
 
@@ -130,21 +142,7 @@ class ManageExercisePage extends Page {
         const saveButton = ManageExerciseObjects.saveButton;
 
         // Dismiss keyboard if it covers the action buttons.
-        if (await browser.isKeyboardShown()) {
-            try {
-                // Not always supported on iOS, so keep a fallback.
-                await browser.hideKeyboard();
-            } catch {
-                // Tap a non-input label to dismiss the keyboard.
-                try {
-                    await ManageExerciseObjects.notesOptionalLabel.click();
-                } catch {
-                    await ManageExerciseObjects.notesLabel.click();
-                }
-            }
-            logger.info('Keyboard dismissed before tapping Save/Add');
-            await browser.pause(300);
-        }
+        await this.dismissKeyboard({ soft: true });
 
         // Ensure the button is in view (it is below notes).
         try {
@@ -159,7 +157,7 @@ class ManageExercisePage extends Page {
             const alert = await browser.getAlertText();
             if (alert) {
                 await browser.acceptAlert();
-                await browser.pause(1000);
+                await this.waitForTreeStable({ soft: true });
             }
         } catch {
             // No alert present, continue
@@ -175,7 +173,7 @@ class ManageExercisePage extends Page {
         const cancelButton = ManageExerciseObjects.cancelButton;
         await expect(cancelButton).toBeDisplayed({ wait: 5000 });
         await cancelButton.click();
-        await browser.pause(500);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -186,14 +184,15 @@ class ManageExercisePage extends Page {
         const deleteButton = ManageExerciseObjects.deleteButton;
         await expect(deleteButton).toBeDisplayed({ wait: 5000 });
         await deleteButton.click();
-        await browser.pause(500);
+        // Let the confirmation alert come up
+        await this.waitForTreeStable({ soft: true });
         
         // Handle confirmation alert if present
         try {
             const alert = await browser.getAlertText();
             if (alert) {
                 await browser.acceptAlert();
-                await browser.pause(1000);
+                await this.waitForTreeStable({ soft: true });
             }
         } catch (error) {
             // No alert present, continue
@@ -241,10 +240,10 @@ class ManageExercisePage extends Page {
     public async tapAddExerciseForMuscleGroup(muscleGroupName: string) {
         const addButton = ManageExerciseObjects.getAddExerciseButtonForMuscleGroup(muscleGroupName);
         await addButton.scrollIntoView();
-        await browser.pause(500);
+        await this.waitForElementToStopMoving(addButton, { soft: true });
         await expect(addButton).toBeDisplayed({ wait: 5000 });
         await addButton.click();
-        await browser.pause(1000);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -256,10 +255,10 @@ class ManageExercisePage extends Page {
     public async tapExerciseItem(muscleGroupName: string, exerciseName: string) {
         const exerciseItem = ManageExerciseObjects.getExerciseItem(muscleGroupName, exerciseName);
         await exerciseItem.scrollIntoView();
-        await browser.pause(500);
+        await this.waitForElementToStopMoving(exerciseItem, { soft: true });
         await expect(exerciseItem).toBeDisplayed({ wait: 5000 });
         await exerciseItem.click();
-        await browser.pause(1000);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -269,7 +268,7 @@ class ManageExercisePage extends Page {
     public async tapBack() {
         await expect(ManageExerciseObjects.backButton).toBeDisplayed({ wait: 5000 });
         await ManageExerciseObjects.backButton.click();
-        await browser.pause(500);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 }
@@ -293,4 +292,41 @@ export default new ManageExercisePage();
  *     .execute();
  * ```
  */
-export const createFluentManageExercisePage = () => createFluentProxy(new ManageExercisePage());
+export const createFluentManageExercisePage = (options?: FluentProxyOptions) => createFluentProxy(new ManageExercisePage(), options);
+
+/**
+ * Parameters of the {@link addExercise} chain fragment
+ */
+export interface AddExerciseParams {
+    /** Muscle group to add the exercise to */
+    muscle: string;
+    name: string;
+    reps: number;
+    weight: number;
+    sets: number;
+    notes?: string;
+}
+
+/**
+ * Chain fragment adding one exercise from the Manage Exercise screen, then going back to Routine Detail
+ * 
+ * @example
+ * ```typescript
+ * await routineDetail
+ *     .tapExercisesForDay('Monday')
+ *     .waitForScreen()
+ *     .use(addExercise, { muscle: 'Chest', name: 'Bench Press', reps: 30, weight: 135, sets: 3 })
+ *     .execute();
+ * ```
+ */
+export const addExercise = defineChain('addExercise', (chain: FluentProxy<ManageExercisePage>, params: AddExerciseParams) => {
+    const form = chain
+        .tapAddExerciseForMuscleGroup(params.muscle)
+        .enterExerciseName(params.name)
+        .enterTotalReps(params.reps)
+        .enterWeight(params.weight)
+        .enterTotalSets(params.sets);
+    return (params.notes !== undefined ? form.enterNotes(params.notes) : form)
+        .tapSave()
+        .tapBack();
+});
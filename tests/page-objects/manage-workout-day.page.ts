@@ -1,7 +1,8 @@
 import { $, expect, browser } from '@wdio/globals';
 import ManageWorkoutDayObjects from './objects/manage-workout-day.objects.js';
-import Page from './page.js';
-import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
+import Page, { type PageElementRef } from './page.js';
+import RoutineDetailPage from './routine-detail.page.js';
+import { createFluentProxy, type FluentProxyOptions } from '../../support/utils/fluent-proxy.js';
 
 /**
  * Page object for the "Manage Workout Day" screen
@@ -9,6 +10,21 @@ import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
  * @internal
  */
 class ManageWorkoutDayPage extends Page {
+    /**
+     * Saving or going back returns to the Routine Detail screen
+     */
+    public readonly transitions = {
+        saveWorkoutDay: () => RoutineDetailPage,
+        tapBack: () => RoutineDetailPage,
+    };
+
+    /**
+     * The Notes label and the screen title have no action
+     */
+    protected keyboardSafeAreas(): PageElementRef[] {
+        return [ManageWorkoutDayObjects.notesLabel, ManageWorkoutDayObjects.screenTitle];
+    }
+
     public async tapBack() {
         await ManageWorkoutDayObjects.backButton.click();
         return this;
@@ -22,7 +38,7 @@ class ManageWorkoutDayPage extends Page {
      */
     public async waitForScreen() {
         await expect(ManageWorkoutDayObjects.dayNumberInput).toBeDisplayed({ wait: 10000 });
-        await browser.pause(500);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -42,9 +58,8 @@ class ManageWorkoutDayPage extends Page {
         
         await expect(dayNumberInput).toBeEnabled({ wait: 2000 });
         await dayNumberInput.click();
-        await browser.pause(600);
         await dayNumberInput.setValue(dayNumber.toString());
-        await browser.pause(300);
+        await this.waitForValue(dayNumberInput, dayNumber, { soft: true });
         return this;
     }
 
@@ -57,9 +72,8 @@ class ManageWorkoutDayPage extends Page {
         await expect(dayNameInput).toBeDisplayed({ wait: 5000 });
         await expect(dayNameInput).toBeEnabled({ wait: 2000 });
         await dayNameInput.click();
-        await browser.pause(200);
         await dayNameInput.setValue(dayName);
-        await browser.pause(200);
+        await this.waitForValue(dayNameInput, dayName, { soft: true });
         return this;
     }
 
@@ -115,26 +129,11 @@ class ManageWorkoutDayPage extends Page {
         await setsInput.waitForExist({ timeout: 5000 });
         console.log(`Element exists for muscle group ${muscleGroupId}`);
         
-        // Scroll to element BEFORE clicking to ensure it's visible above keyboard area
-        // For muscle groups at the bottom (like Abductor ID: 13), we need to scroll before keyboard appears
+        // Scroll to element BEFORE clicking; once the keyboard is up it is scrolled clear of it
         try {
             await setsInput.scrollIntoView();
-            await browser.pause(500);
+            await this.waitForElementToStopMoving(setsInput, { soft: true });
             console.log(`Scrolled to muscle group ${muscleGroupId}`);
-            
-            // For bottom muscle groups, scroll a bit more to ensure space above keyboard
-            if (muscleGroupId >= 12) {
-                // Scroll down a bit more to ensure element is well above keyboard area
-                try {
-                    await browser.execute('mobile: scroll', { 
-                        direction: 'down',
-                        element: setsInput.elementId 
-                    });
-                    await browser.pause(300);
-                } catch (e2) {
-                    // Alternative scroll failed, continue
-                }
-            }
         } catch (e) {
             console.log(`Scroll failed for muscle group ${muscleGroupId}, trying alternative scroll...`);
             // Try scrolling down if initial scroll fails
@@ -143,7 +142,7 @@ class ManageWorkoutDayPage extends Page {
                     direction: 'down',
                     element: setsInput.elementId 
                 });
-                await browser.pause(500);
+                await this.waitForElementToStopMoving(setsInput, { soft: true });
             } catch (e2) {
                 console.log(`Alternative scroll also failed for muscle group ${muscleGroupId}, continuing...`);
             }
@@ -155,114 +154,41 @@ class ManageWorkoutDayPage extends Page {
         
         // Click the input field
         await setsInput.click();
-        await browser.pause(400);
         console.log(`Clicked input for muscle group ${muscleGroupId}`);
         
-        // If keyboard appeared and element is no longer visible, dismiss keyboard and scroll again
-        try {
-            const isKeyboardShown = await browser.isKeyboardShown();
-            if (isKeyboardShown) {
-                const isStillVisible = await setsInput.isDisplayed();
-                if (!isStillVisible) {
-                    console.log('Keyboard appeared and element is not visible, dismissing keyboard...');
-                    await this.hideKeyboard();
-                    // Scroll again after dismissing keyboard
-                    await setsInput.scrollIntoView();
-                    await browser.pause(300);
-                }
-            }
-        } catch (e) {
-            console.log('Could not check keyboard visibility after click');
-        }
+        // Muscle groups at the bottom (like Abductor ID: 13) end up under the keyboard
+        await this.scrollFocusedInputClearOfKeyboard(setsInput);
         
         await setsInput.setValue(numberOfSets.toString());
         console.log(`Set value ${numberOfSets} for muscle group ${muscleGroupId}`);
         
-        await browser.pause(300);
+        await this.waitForValue(setsInput, numberOfSets, { soft: true });
         return this;
     }
 
-    /**
-     * Hide keyboard if it's shown
-     */
-    private async hideKeyboard() {
-        try {
-            // Check if keyboard is shown
-            const isKeyboardShown = await browser.isKeyboardShown();
-            if (isKeyboardShown) {
-                console.log('Keyboard is shown, attempting to dismiss...');
-                // Tap on a non-interactive element to dismiss keyboard
-                // Try tapping on the notes label or screen title
-                try {
-                    const notesLabel = ManageWorkoutDayObjects.notesLabel;
-                    if (await notesLabel.isDisplayed()) {
-                        await notesLabel.click();
-                        await browser.pause(200);
-                    }
-                } catch (e) {
-                    // Try alternative: tap on screen title
-                    try {
-                        const screenTitle = ManageWorkoutDayObjects.manageWorkoutDayScreen;
-                        if (await screenTitle.isDisplayed()) {
-                            await screenTitle.click();
-                            await browser.pause(200);
-                        }
-                    } catch (e2) {
-                        console.log('Could not find element to dismiss keyboard');
-                    }
-                }
-                
-                // Wait for keyboard to hide
-                await browser.waitUntil(async () => {
-                    return !(await browser.isKeyboardShown());
-                }, {
-                    timeout: 2000,
-                    timeoutMsg: 'Keyboard did not hide within timeout'
-                });
-                console.log('Keyboard dismissed');
-            }
-        } catch (error) {
-            console.log('Keyboard dismissal check completed:', error instanceof Error ? error.message : String(error));
-        }
-    }
-
     /**
      * Save the workout day
      */
     public async saveWorkoutDay() {
-        // Dismiss keyboard by clicking on Notes label
-        try {
-            const notesLabel = ManageWorkoutDayObjects.notesLabel;
-            const isNotesVisible = await notesLabel.isDisplayed();
-            
-            if (!isNotesVisible) {
-                await browser.swipe({direction: 'down', percent: 0.5});
-            }
-            
-            if (await notesLabel.isDisplayed()) {
-                await notesLabel.doubleClick();
-                await browser.pause(400);
-            }
-        } catch (e) {
-            // Keyboard might not be open or Notes label not accessible
-        }
+        await this.dismissKeyboard({ soft: true });
         
         let saveButton = ManageWorkoutDayObjects.saveWorkoutDayButton;
         await saveButton.scrollIntoView();
-        await browser.pause(1500);
+        await this.waitForElementToStopMoving(saveButton, { soft: true });
         
         // Re-query the button to ensure we have the latest reference
         saveButton = ManageWorkoutDayObjects.saveWorkoutDayButton;
         await expect(saveButton).toBeDisplayed({ wait: 5000 });
         
         await saveButton.click();
-        await browser.pause(500); // Give time for the click to register
+        // Let the save finish: the screen closes, or a validation alert comes up
+        await this.waitForTreeStable({ soft: true });
         
         try {
             const alert = await browser.getAlertText();
             if (alert) {
                 await browser.acceptAlert();
-                await browser.pause(1000);
+                await this.waitForTreeStable({ soft: true });
             }
         } catch (error) {
             // No alert present, continue
@@ -290,5 +216,5 @@ export default new ManageWorkoutDayPage();
  *     .execute();
  * ```
  */
-export const createFluentManageWorkoutDayPage = () => createFluentProxy(new ManageWorkoutDayPage());
+export const createFluentManageWorkoutDayPage = (options?: FluentProxyOptions) => createFluentProxy(new ManageWorkoutDayPage(), options);
 
@@ -2,7 +2,11 @@ import { $, expect, browser } from '@wdio/globals';
 import MyRoutinesObjects from './objects/my-routines.objects.js';
 import RoutineListObjects from './objects/routine-list.objects.js';
 import Page from './page.js';
-import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
+import CreateRoutinePage from './create-routine.page.js';
+import RoutineDetailPage from './routine-detail.page.js';
+import WeeklyReportPage from './weekly-report.page.js';
+import { createFluentProxy, type FluentProxyOptions } from '../../support/utils/fluent-proxy.js';
+import { retry, recoveries } from '../../support/utils/retry.js';
 
 /**
  * Page object for the "My Routines" screen
@@ -10,19 +14,29 @@ import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
  * @internal
  */
 class MyRoutinesPage extends Page {
+    /**
+     * Screens reached from the routine list; fluent chains continue on the returned page
+     */
+    public readonly transitions = {
+        tapCreateRoutine: () => CreateRoutinePage,
+        tapRoutineItem: () => RoutineDetailPage,
+        tapReportButton: () => WeeklyReportPage,
+        tapReportButtonByName: () => WeeklyReportPage,
+    };
 
     /**
      * Wait for the My Routines screen to be displayed
      */
     public async waitForScreen() {
-        await browser.pause(2000);
+        // Let the screen transition end, so an alert shown on arrival is up before checking for it
+        await this.waitForTreeStable({ soft: true });
         
         try {
             const alert = await browser.getAlertText();
             if (alert) {
                 console.log(`⚠️  Dismissing alert: ${alert}`);
                 await browser.dismissAlert();
-                await browser.pause(1000);
+                await this.waitForTreeStable({ soft: true });
             }
         } catch (error) {
             // No alert present, continue
@@ -141,29 +155,34 @@ class MyRoutinesPage extends Page {
         await reportButton.waitForExist({ timeout: 5000 });
         
         // Explicitly scroll to element before clicking to avoid scroll direction issues
-        try {
-            await reportButton.scrollIntoView();
-            await browser.pause(500);
-        } catch (scrollError) {
-            console.log(`Initial scroll failed for report button ${routineId}, trying alternative scroll...`);
-            // Try scrolling down if initial scroll fails (element might be below viewport)
-            try {
-                await browser.execute('mobile: scroll', { 
-                    direction: 'down',
-                    element: reportButton.elementId 
-                });
-                await browser.pause(500);
-            } catch (e2) {
-                console.log(`Alternative scroll also failed, continuing...`);
-            }
-        }
+        await this.scrollReportButtonIntoView(reportButton, `report button ${routineId}`);
         
         await expect(reportButton).toBeDisplayed({ wait: 5000 });
         await reportButton.click();
-        await browser.pause(1000);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
+    /**
+     * Scroll a report button into view; if scrolling fails (element might be below viewport),
+     * scroll down with the native scroll and try again. Continues silently when both fail.
+     * @param reportButton The report button element
+     * @param description Description of the button used in logs
+     */
+    private async scrollReportButtonIntoView(reportButton: ReturnType<typeof RoutineListObjects.getReportButton>, description: string) {
+        await retry(async () => {
+            await reportButton.scrollIntoView();
+            await this.waitForElementToStopMoving(reportButton, { soft: true });
+        }, {
+            attempts: 2,
+            backoff: 500,
+            label: `Scroll to ${description}`,
+            recover: () => browser.execute('mobile: scroll', { direction: 'down', element: reportButton.elementId }),
+        }).catch(() => {
+            console.log(`Scrolling to ${description} failed, continuing...`);
+        });
+    }
+
     /**
      * Tap the report button for a routine by name
      * @param routineName The name of the routine
@@ -187,26 +206,11 @@ class MyRoutinesPage extends Page {
             await reportButton.waitForExist({ timeout: 5000 });
             
             // Explicitly scroll to element before clicking
-            try {
-                await reportButton.scrollIntoView();
-                await browser.pause(500);
-            } catch (scrollError) {
-                console.log(`Initial scroll failed for report button by name "${routineName}", trying alternative scroll...`);
-                // Try scrolling down if initial scroll fails
-                try {
-                    await browser.execute('mobile: scroll', { 
-                        direction: 'down',
-                        element: reportButton.elementId 
-                    });
-                    await browser.pause(500);
-                } catch (e2) {
-                    console.log(`Alternative scroll also failed, continuing...`);
-                }
-            }
+            await this.scrollReportButtonIntoView(reportButton, `report button by name "${routineName}"`);
             
             await expect(reportButton).toBeDisplayed({ wait: 5000 });
             await reportButton.click();
-            await browser.pause(1000);
+            await this.waitForTreeStable({ soft: true });
         }
         return this;
     }
@@ -217,23 +221,17 @@ class MyRoutinesPage extends Page {
      */
     public async deleteRoutineByName(routineName: string) {
         try {
-            let screenReady = false;
-            for (let i = 0; i < 3; i++) {
-                try {
-                    await this.waitForScreen();
-                    screenReady = true;
-                    break;
-                } catch (e) {
-                    await browser.pause(1000);
-                }
-            }
+            const screenReady = await retry(() => this.waitForScreen(), {
+                attempts: 3,
+                backoff: 1000,
+                label: 'Wait for My Routines before delete',
+                recover: recoveries.dismissAlert(),
+            }).then(() => true, () => false);
             
             if (!screenReady) {
                 console.log('Screen wait failed, attempting to find routine anyway...');
             }
             
-            await browser.pause(500);
-            
             const routines = await this.getRoutineList();
             let routineIndex = -1;
             const routinesLength = await routines.length;
@@ -273,7 +271,7 @@ class MyRoutinesPage extends Page {
             
             await this.tapDeleteRoutine(routineIndex.toString());
             
-            await browser.pause(500);
+            await this.waitForTreeStable({ soft: true });
             try {
                 const confirmSelectors = [
                     $('~Delete'),
@@ -288,7 +286,6 @@ class MyRoutinesPage extends Page {
                     try {
                         if (await confirmButton.isDisplayed()) {
                             await confirmButton.click();
-                            await browser.pause(500);
                             break;
                         }
                     } catch (e) {
@@ -299,7 +296,7 @@ class MyRoutinesPage extends Page {
                 // No confirmation dialog
             }
             
-            await browser.pause(500);
+            await this.waitForTreeStable({ soft: true });
             
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -325,4 +322,4 @@ export default new MyRoutinesPage();
  *     .execute();
  * ```
  */
-export const createFluentMyRoutinesPage = () => createFluentProxy(new MyRoutinesPage());
+export const createFluentMyRoutinesPage = (options?: FluentProxyOptions) => createFluentProxy(new MyRoutinesPage(), options);
@@ -0,0 +1,80 @@
+import CreateRoutinePage from './create-routine.page.js';
+import ManageExercisePage from './manage-exercise.page.js';
+import ManageWorkoutDayPage from './manage-workout-day.page.js';
+import MyRoutinesPage from './my-routines.page.js';
+import RoutineDetailPage from './routine-detail.page.js';
+import WeeklyReportPage from './weekly-report.page.js';
+import { pages } from './pages.js';
+import { identifyCurrentScreen, type ScreenName } from '../../support/utils/screen-fingerprint.js';
+import {
+    navigateWith,
+    ScreenGraph,
+    type NavigationDriver,
+    type NavigationParams,
+    type ScreenTransition,
+} from '../../support/utils/screen-navigator.js';
+
+type PageWithTransitions = { transitions: Record<string, () => object> };
+
+/**
+ * Screen of a page object, e.g. RoutineDetailPage → RoutineDetail
+ */
+function toScreenName(page: object): ScreenName {
+    return page.constructor.name.replace(/Page$/, '') as ScreenName;
+}
+
+/**
+ * Transition of a page's `transitions` map; the target screen is the page the method is declared to land on
+ */
+function transition(page: PageWithTransitions, method: string, params: string[] = []): ScreenTransition {
+    return { from: toScreenName(page), to: toScreenName(page.transitions[method]()), method, params };
+}
+
+/**
+ * Navigation between screens. Only methods without side effects are used (no save, create or delete).
+ */
+export const screenGraph = new ScreenGraph([
+    transition(MyRoutinesPage, 'tapCreateRoutine'),
+    transition(MyRoutinesPage, 'tapRoutineItem', ['routineName']),
+    transition(MyRoutinesPage, 'tapReportButtonByName', ['routineName']),
+    transition(CreateRoutinePage, 'tapBack'),
+    transition(RoutineDetailPage, 'tapAddWorkoutDay'),
+    transition(RoutineDetailPage, 'tapExercisesForDay', ['dayName']),
+    transition(RoutineDetailPage, 'tapBack'),
+    transition(ManageWorkoutDayPage, 'tapBack'),
+    transition(ManageExercisePage, 'tapBack'),
+    transition(WeeklyReportPage, 'tapBack'),
+]);
+
+/**
+ * Navigation driver backed by the page objects and a page-source screen identification
+ */
+export const pageNavigationDriver: NavigationDriver = {
+    async currentScreen() {
+        return (await identifyCurrentScreen()).screen;
+    },
+    async invoke(screen, method, args) {
+        const page = pages[`${screen}Page`] as Record<string, (...args: unknown[]) => Promise<unknown>>;
+        await page[method](...args);
+    },
+    async waitForScreen(screen) {
+        const page = pages[`${screen}Page`] as { waitForScreen(): Promise<unknown> };
+        await page.waitForScreen();
+    },
+};
+
+/**
+ * Go to a screen from wherever the app is, e.g. in cleanup or to start a test deep in the app
+ * @param screen Target screen
+ * @param params Values the transitions on the way need: `routineName` (Routine Detail, Weekly Report),
+ *               `dayName` (Manage Exercise)
+ *
+ * @example
+ * ```typescript
+ * await navigateTo('WeeklyReport', { routineName: 'Push Pull Legs' });
+ * await navigateTo('MyRoutines');
+ * ```
+ */
+export async function navigateTo(screen: ScreenName, params: NavigationParams = {}): Promise<void> {
+    await navigateWith(screenGraph, pageNavigationDriver, screen, params);
+}
@@ -1,4 +1,4 @@
-import { $ } from '@wdio/globals';
+import { $ } from '../../../support/utils/self-healing.js';
 
 /**
  * Object definitions for the "Create Routine" form screen
@@ -1,4 +1,4 @@
-import { $ } from '@wdio/globals';
+import { $ } from '../../../support/utils/self-healing.js';
 
 /**
  * Map muscle group names to IDs (testID: add-exercise-button-{id} from ManageExerciseScreen.js)
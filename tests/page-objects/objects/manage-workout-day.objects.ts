@@ -1,4 +1,4 @@
-import { $ } from '@wdio/globals';
+import { $ } from '../../../support/utils/self-healing.js';
 import { MuscleGroupId } from '../../enum.js';
 
 /**
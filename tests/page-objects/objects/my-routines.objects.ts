@@ -1,4 +1,4 @@
-import { $, $$ } from '@wdio/globals';
+import { $, $$ } from '../../../support/utils/self-healing.js';
 
 /**
  * Object definitions for the "My Routines" screen
@@ -14,7 +14,7 @@ class MyRoutinesObjects {
     }
 
     public get routineList() {
-        return $$('~Routine Item');
+        return $$('-ios predicate string:name MATCHES "routine-item-[0-9]+"');
     }
 
     public get routineListScreen() {
@@ -1,4 +1,4 @@
-import { $ } from '@wdio/globals';
+import { $ } from '../../../support/utils/self-healing.js';
 import { MuscleGroupId } from '../../enum.js';
 
 /**
@@ -111,6 +111,13 @@ class RoutineDetailObjects {
         return $('~create-snapshot-button');
     }
 
+    /**
+     * Get the toast shown once the snapshot is saved
+     */
+    public get snapshotSuccessToast() {
+        return $('~snapshot-success-toast');
+    }
+
     /**
      * Get the "Exercises" button for a workout day (navigates to Manage Exercise screen).
      * Routine Detail has one Exercises button per workout day (testID: exercises-day-{id}).
@@ -1,4 +1,4 @@
-import { $ } from '@wdio/globals';
+import { $ } from '../../../support/utils/self-healing.js';
 
 /**
  * Object definitions for the "Weekly Report" screen
@@ -46,7 +46,7 @@ class WeeklyReportObjects {
      * @param index The index of the muscle group in the list (0-based)
      */
     public getMuscleGroupCardByIndex(index: number) {
-        return $(`//XCUIElementTypeOther[@name="muscle-group-"][${index + 1}]`);
+        return $(`//XCUIElementTypeOther[starts-with(@name, "muscle-group-")][${index + 1}]`);
     }
 
     /**
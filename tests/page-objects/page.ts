@@ -1,12 +1,67 @@
-import { browser } from '@wdio/globals'
-import * as fs from 'node:fs'
-import * as path from 'node:path'
+import { $, browser } from '@wdio/globals'
+import { getArtifacts } from '../../support/utils/artifacts.js'
+import { describeElement, flattenElements, formatBounds, parsePageSource, type Bounds } from '../../support/utils/page-source.js'
+import { changedLines, sameBounds, waitForCondition, WaitTimeoutError, type WaitOptions } from '../../support/utils/smart-wait.js'
+import { recordDirectPageCalls } from '../../support/utils/step-timeline.js'
+
+/**
+* An element as returned by the objects layer
+*/
+export type PageElementRef = ReturnType<typeof $>
+
+/**
+* A way of dismissing the keyboard, tried in the order a page declares them:
+* - `toolbar`: tap the Done key of the input toolbar, or the keyboard's Done/Return key
+* - `safeArea`: tap the first displayed element of the page's keyboardSafeAreas()
+* - `hideKeyboard`: Appium's hideKeyboard
+*/
+export type KeyboardStrategy = 'toolbar' | 'safeArea' | 'hideKeyboard'
+
+/** Done/Return button, visible */
+const DONE_BUTTON = 'XCUIElementTypeButton[`visible == 1 AND (name == "Done" OR name == "Return" OR name == "return")`]'
+
+/** Done key of the input toolbar, then the keyboard's return key when it reads Done/Return; buttons of the screen are left out */
+const KEYBOARD_DONE_KEYS = [
+    `-ios class chain:**/XCUIElementTypeToolbar/**/${DONE_BUTTON}`,
+    `-ios class chain:**/XCUIElementTypeKeyboard/**/${DONE_BUTTON}`,
+]
+
+/** Keyboard frame, used to tell whether an input is covered */
+const KEYBOARD = '-ios class chain:**/XCUIElementTypeKeyboard'
 
 /**
 * main page object containing all methods, selectors and functionality
 * that is shared across all page objects
 */
 export default class Page {
+    /**
+    * What counts as a loading indicator for waitForLoadingToFinish(): accessibility ids and element types.
+    * Pages with their own spinners add their ids.
+    */
+    protected readonly loadingIndicators: { ids: string[], types: string[] } = {
+        ids: ['loading-indicator'],
+        types: ['XCUIElementTypeActivityIndicator'],
+    }
+
+    /**
+    * Strategies dismissKeyboard() tries, in order. Screens with a multi-line input leave out `toolbar`,
+    * whose Return key would add a line instead.
+    */
+    protected readonly keyboardStrategies: KeyboardStrategy[] = ['toolbar', 'safeArea', 'hideKeyboard']
+
+    /**
+    * Elements that can be tapped to dismiss the keyboard without side effects, e.g. a label or the screen title.
+    * Pages with inputs declare theirs.
+    */
+    protected keyboardSafeAreas(): PageElementRef[] {
+        return []
+    }
+
+    constructor() {
+        // Page methods called outside fluent chains show up in the step timeline too
+        recordDirectPageCalls(this)
+    }
+
     /**
     * Gets the page source (DOM tree) for debugging
     * @returns Promise<string> The page source XML
@@ -16,25 +71,15 @@ export default class Page {
     }
 
     /**
-    * Captures and saves the page source (DOM tree) to a file
+    * Captures and saves the page source (DOM tree) into the running test's artifact bundle
     * @param screenName The name of the screen (used for filename)
     * @returns Promise<string> The file path where the DOM tree was saved
     */
     public async captureDOMTree(screenName: string): Promise<string> {
-        const pageSource = await this.getPageSource();
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const filename = `dom-tree-${screenName}-${timestamp}.xml`;
-        const filepath = path.join(process.cwd(), 'artifacts', 'dom-captures', filename);
-        
-        // Ensure directory exists
-        const dir = path.dirname(filepath);
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
-        
-        fs.writeFileSync(filepath, pageSource);
-        console.log(`\n📸 DOM Tree captured: ${filepath}`);
-        return filepath;
+        const pageSource = await this.getPageSource()
+        const filepath = getArtifacts().write('page-source', `dom-tree-${screenName}.xml`, pageSource, `DOM tree of ${screenName}`)
+        console.log(`\n📸 DOM Tree captured: ${filepath}`)
+        return filepath
     }
 
     /**
@@ -46,5 +91,168 @@ export default class Page {
         console.log(pageSource);
         console.log('============================================\n');
     }
-}
 
+    /**
+    * Wait until the element tree is the same on two polls in a row: transitions, list renders and
+    * animations are over. Use it where a fixed pause waited for the screen to settle.
+    * @throws WaitTimeoutError listing what still changed between the last polls
+    */
+    public async waitForTreeStable(options: WaitOptions = {}): Promise<void> {
+        await waitForCondition({
+            label: 'element tree to be stable',
+            sample: () => this.getPageSource(),
+            isDone: (current, previous) => current === previous,
+            diagnose: (sources) => {
+                const changes = sources.slice(1).map((source, i) => changedLines(sources[i], source))
+                const last = changes[changes.length - 1] ?? []
+                return [
+                    `changed lines per poll: ${changes.map((lines) => lines.length).join(', ') || 'n/a'}`,
+                    ...last.slice(0, 3).map((line) => `changed: ${line.slice(0, 160)}`),
+                ]
+            },
+        }, { timeout: 5000, interval: 300, ...options })
+    }
+
+    /**
+    * Wait until an element keeps the same bounds on two polls in a row, e.g. after scrollIntoView()
+    * or while a screen slides in
+    * @returns The final bounds, or undefined when a soft wait timed out
+    * @throws WaitTimeoutError with the last bounds of the element
+    */
+    public async waitForElementToStopMoving(element: PageElementRef, options: WaitOptions = {}): Promise<Bounds | undefined> {
+        return await waitForCondition<Bounds>({
+            label: `${element.selector} to stop moving`,
+            sample: async () => {
+                const [location, size] = await Promise.all([element.getLocation(), element.getSize()])
+                return { x: location.x, y: location.y, width: size.width, height: size.height }
+            },
+            isDone: (current, previous) => previous !== undefined && sameBounds(current, previous, 1),
+            diagnose: (bounds) => [`bounds: ${bounds.map(formatBounds).join(' → ')}`],
+        }, { timeout: 3000, interval: 150, ...options })
+    }
+
+    /**
+    * Wait until no loading indicator (see loadingIndicators) is visible
+    * @throws WaitTimeoutError listing the indicators still shown
+    */
+    public async waitForLoadingToFinish(options: WaitOptions = {}): Promise<void> {
+        const { ids, types } = this.loadingIndicators
+        await waitForCondition({
+            label: 'loading indicators to disappear',
+            sample: async () => flattenElements(parsePageSource(await this.getPageSource()))
+                .filter((element) => element.visible && (types.includes(element.type) || ids.includes(element.name ?? '')))
+                .map(describeElement),
+            isDone: (indicators) => indicators.length === 0,
+            diagnose: (samples) => [`still visible: ${samples[samples.length - 1].join(', ')}`],
+        }, { timeout: 10000, interval: 500, ...options })
+    }
+
+    /**
+    * Wait until an element's value equals the expected one, e.g. after setValue() on a text field
+    * @throws WaitTimeoutError with the values seen
+    */
+    public async waitForValue(element: PageElementRef, expected: string | number, options: WaitOptions = {}): Promise<void> {
+        await waitForCondition<string | null>({
+            label: `${element.selector} to have value "${expected}"`,
+            sample: () => element.getAttribute('value'),
+            isDone: (value) => value === String(expected),
+            diagnose: (values) => [`values seen: ${[...new Set(values)].map((value) => JSON.stringify(value)).join(', ')}`],
+        }, { timeout: 3000, interval: 200, ...options })
+    }
+
+    /**
+    * Dismiss the keyboard by trying the page's keyboardStrategies in order, until isKeyboardShown() is false.
+    * Nothing is done when no keyboard is shown.
+    * @returns Whether the keyboard is hidden (false only when a soft dismissal failed)
+    * @throws WaitTimeoutError listing what each strategy did, when the keyboard is still shown
+    */
+    public async dismissKeyboard(options: Pick<WaitOptions, 'soft'> = {}): Promise<boolean> {
+        if (!(await browser.isKeyboardShown())) {
+            return true
+        }
+        const startedAt = Date.now()
+        const tried: string[] = []
+        for (const strategy of this.keyboardStrategies) {
+            try {
+                if (!(await this.applyKeyboardStrategy(strategy))) {
+                    tried.push(`${strategy}: nothing to tap`)
+                    continue
+                }
+            } catch (error) {
+                tried.push(`${strategy}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`)
+                continue
+            }
+            const hidden = await browser.waitUntil(async () => !(await browser.isKeyboardShown()), { timeout: 1500, interval: 200 })
+                .then(() => true, () => false)
+            if (hidden) {
+                console.log(`⌨️ Keyboard dismissed (${strategy})`)
+                return true
+            }
+            tried.push(`${strategy}: keyboard still shown`)
+        }
+
+        const error = new WaitTimeoutError('keyboard to be dismissed', Date.now() - startedAt, tried.length, tried)
+        console.log(`⏱️ ${error.message}${options.soft ? ' (continuing)' : ''}`)
+        if (options.soft) {
+            return false
+        }
+        throw error
+    }
+
+    /**
+    * Run one keyboard strategy
+    * @returns False when the strategy had nothing to tap on this screen
+    */
+    private async applyKeyboardStrategy(strategy: KeyboardStrategy): Promise<boolean> {
+        switch (strategy) {
+            case 'toolbar':
+                for (const selector of KEYBOARD_DONE_KEYS) {
+                    const doneKey = $(selector)
+                    if (await doneKey.isExisting()) {
+                        await doneKey.click()
+                        return true
+                    }
+                }
+                return false
+            case 'safeArea':
+                for (const area of this.keyboardSafeAreas()) {
+                    if (await area.isDisplayed().catch(() => false)) {
+                        await area.click()
+                        return true
+                    }
+                }
+                return false
+            case 'hideKeyboard':
+                await browser.hideKeyboard()
+                return true
+        }
+    }
+
+    /**
+    * Scroll the input that was just focused until it is above the keyboard, e.g. a field low on a form.
+    * Nothing is done when no keyboard is shown or the input is already clear of it.
+    * @param input The focused input
+    * @param margin Space to keep between the input and the keyboard, in points
+    */
+    public async scrollFocusedInputClearOfKeyboard(input: PageElementRef, margin = 16): Promise<void> {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            if (!(await browser.isKeyboardShown())) {
+                return
+            }
+            const keyboard = $(KEYBOARD)
+            const [keyboardLocation, keyboardSize, location, size] = await Promise.all([
+                keyboard.getLocation(), keyboard.getSize(), input.getLocation(), input.getSize(),
+            ])
+            const overlap = location.y + size.height + margin - keyboardLocation.y
+            if (overlap <= 0) {
+                return
+            }
+            // Drag the content up from just above the keyboard, by as much as the input is covered
+            const x = Math.round(keyboardLocation.x + keyboardSize.width / 2)
+            const fromY = Math.round(keyboardLocation.y - margin)
+            await browser.swipe({ from: { x, y: fromY }, to: { x, y: Math.max(fromY - overlap, margin) } })
+            await this.waitForElementToStopMoving(input, { soft: true })
+        }
+        console.log(`⚠️ ${input.selector} is still covered by the keyboard`)
+    }
+}
@@ -0,0 +1,21 @@
+import CreateRoutinePage from './create-routine.page.js';
+import ManageExercisePage from './manage-exercise.page.js';
+import ManageWorkoutDayPage from './manage-workout-day.page.js';
+import MyRoutinesPage from './my-routines.page.js';
+import RoutineDetailPage from './routine-detail.page.js';
+import WeeklyReportPage from './weekly-report.page.js';
+
+/**
+ * All page objects by class name, as recorded in fluent plans
+ * Used by replayPlan() to resolve the page of each recorded step
+ */
+export const pages: Record<string, object> = Object.fromEntries(
+    [
+        CreateRoutinePage,
+        ManageExercisePage,
+        ManageWorkoutDayPage,
+        MyRoutinesPage,
+        RoutineDetailPage,
+        WeeklyReportPage,
+    ].map((page) => [page.constructor.name, page]),
+);
@@ -1,8 +1,14 @@
 import { $, expect, browser } from '@wdio/globals';
 import RoutineDetailObjects from './objects/routine-detail.objects.js';
 import { MuscleGroupId } from '../enum.js';
-import Page from './page.js';
-import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
+import Page, { type PageElementRef } from './page.js';
+import ManageExercisePage from './manage-exercise.page.js';
+import ManageWorkoutDayPage from './manage-workout-day.page.js';
+import MyRoutinesPage from './my-routines.page.js';
+import { createFluentProxy, type FluentProxyOptions } from '../../support/utils/fluent-proxy.js';
+import { retry, recoveries } from '../../support/utils/retry.js';
+import { describeElement, flattenElements, parsePageSource } from '../../support/utils/page-source.js';
+import { waitForCondition } from '../../support/utils/smart-wait.js';
 
 /**
  * Page object for the "Routine Detail" screen
@@ -10,6 +16,22 @@ import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
  * @internal
  */
 class RoutineDetailPage extends Page {
+    /**
+     * Screens reached from Routine Detail (day form, exercises, back to the list)
+     */
+    public readonly transitions = {
+        tapAddWorkoutDay: () => ManageWorkoutDayPage,
+        tapExercisesForDay: () => ManageExercisePage,
+        tapBack: () => MyRoutinesPage,
+    };
+
+    /**
+     * The workout day form filled from here: its Notes label has no action
+     */
+    protected keyboardSafeAreas(): PageElementRef[] {
+        return [RoutineDetailObjects.notesLabel];
+    }
+
     public async isScreenDisplayed() {
         return await RoutineDetailObjects.routineDetailScreen.isDisplayed();
     }
@@ -47,8 +69,6 @@ class RoutineDetailPage extends Page {
         console.log('Tapping add workout day button...');
         await this.tapAddWorkoutDay();
         
-        await browser.pause(1000);
-        
         console.log('Waiting for Manage Workout Day screen...');
         await this.waitForManageWorkoutDayScreen();
         console.log('Manage Workout Day screen detected');
@@ -61,23 +81,15 @@ class RoutineDetailPage extends Page {
         await this.enterDayName(dayName);
         console.log('Day name entered');
         
-        try {
-            const notesLabel = RoutineDetailObjects.notesLabel;
-            if (await notesLabel.isDisplayed()) {
-                await notesLabel.click();
-                await browser.pause(300);
-            }
-        } catch (e) {
-            // Keyboard might not be open
-        }
+        await this.dismissKeyboard({ soft: true });
         
         try {
             await RoutineDetailObjects.firstMuscleGroupContainer.scrollIntoView();
-            await browser.pause(500);
+            await this.waitForElementToStopMoving(RoutineDetailObjects.firstMuscleGroupContainer, { soft: true });
         } catch (e) {
             try {
                 await RoutineDetailObjects.firstSetsInput.scrollIntoView();
-                await browser.pause(500);
+                await this.waitForElementToStopMoving(RoutineDetailObjects.firstSetsInput, { soft: true });
             } catch (e2) {
                 // Continue anyway
             }
@@ -86,13 +98,7 @@ class RoutineDetailPage extends Page {
         for (let i = 0; i < actualSets.length; i++) {
             await this.addSet(actualSets[i]);
             if (i < actualSets.length - 1) {
-                try {
-                    const notesLabel = RoutineDetailObjects.notesLabel;
-                    await notesLabel.click();
-                    await browser.pause(400);
-                } catch (e) {
-                    await browser.pause(400);
-                }
+                await this.dismissKeyboard({ soft: true });
             }
         }
         
@@ -124,7 +130,7 @@ class RoutineDetailPage extends Page {
      */
     public async waitForManageWorkoutDayScreen() {
         await expect(RoutineDetailObjects.dayNumberInput).toBeDisplayed({ wait: 10000 });
-        await browser.pause(500);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -144,9 +150,8 @@ class RoutineDetailPage extends Page {
         
         await expect(dayNumberInput).toBeEnabled({ wait: 2000 });
         await dayNumberInput.click();
-        await browser.pause(600);
         await dayNumberInput.setValue(dayNumber.toString());
-        await browser.pause(300);
+        await this.waitForValue(dayNumberInput, dayNumber, { soft: true });
         return this;
     }
 
@@ -159,9 +164,8 @@ class RoutineDetailPage extends Page {
         await expect(dayNameInput).toBeDisplayed({ wait: 5000 });
         await expect(dayNameInput).toBeEnabled({ wait: 2000 });
         await dayNameInput.click();
-        await browser.pause(200);
         await dayNameInput.setValue(dayName);
-        await browser.pause(200);
+        await this.waitForValue(dayNameInput, dayName, { soft: true });
         return this;
     }
 
@@ -219,7 +223,7 @@ class RoutineDetailPage extends Page {
         
         try {
             await setsInput.scrollIntoView();
-            await browser.pause(500);
+            await this.waitForElementToStopMoving(setsInput, { soft: true });
             console.log(`Scrolled to muscle group ${muscleGroupId}`);
         } catch (e) {
             console.log(`Scroll failed for muscle group ${muscleGroupId}, continuing...`);
@@ -230,13 +234,13 @@ class RoutineDetailPage extends Page {
         console.log(`Element is displayed and enabled for muscle group ${muscleGroupId}`);
         
         await setsInput.click();
-        await browser.pause(400);
         console.log(`Clicked input for muscle group ${muscleGroupId}`);
+        await this.scrollFocusedInputClearOfKeyboard(setsInput);
         
         await setsInput.setValue(numberOfSets.toString());
         console.log(`Set value ${numberOfSets} for muscle group ${muscleGroupId}`);
         
-        await browser.pause(300);
+        await this.waitForValue(setsInput, numberOfSets, { soft: true });
         return this;
     }
 
@@ -244,38 +248,25 @@ class RoutineDetailPage extends Page {
      * Save the workout day
      */
     public async saveWorkoutDay() {
-        try {
-            const notesLabel = RoutineDetailObjects.notesLabel;
-            const isNotesVisible = await notesLabel.isDisplayed();
-            
-            if (!isNotesVisible) {
-                await browser.swipe({direction: 'down', percent: 0.5});
-            }
-            
-            if (await notesLabel.isDisplayed()) {
-                await notesLabel.doubleClick();
-                await browser.pause(400);
-            }
-        } catch (e) {
-            // Keyboard might not be open or Notes label not accessible
-        }
+        await this.dismissKeyboard({ soft: true });
         
         let saveButton = RoutineDetailObjects.saveWorkoutDayButton;
         await saveButton.scrollIntoView();
-        await browser.pause(1500);
+        await this.waitForElementToStopMoving(saveButton, { soft: true });
         
         // Re-query the button to ensure we have the latest reference
         saveButton = RoutineDetailObjects.saveWorkoutDayButton;
         await expect(saveButton).toBeDisplayed({ wait: 5000 });
         
         await saveButton.click();
-        await browser.pause(500); // Give time for the click to register
+        // Let the save finish: the screen closes, or a validation alert comes up
+        await this.waitForTreeStable({ soft: true });
         
         try {
             const alert = await browser.getAlertText();
             if (alert) {
                 await browser.acceptAlert();
-                await browser.pause(1000);
+                await this.waitForTreeStable({ soft: true });
             }
         } catch (error) {
             // No alert present, continue
@@ -318,7 +309,6 @@ class RoutineDetailPage extends Page {
     public async tapCreateSnapshot() {
         await expect(RoutineDetailObjects.createSnapshotButton).toBeDisplayed({ wait: 5000 });
         await RoutineDetailObjects.createSnapshotButton.click();
-        await browser.pause(1000);
         return this;
     }
 
@@ -332,21 +322,39 @@ class RoutineDetailPage extends Page {
     }
 
     /**
-     * Wait for snapshot creation to complete (check for success toast or button re-enabled)
+     * Wait until the tap on the create snapshot button shows: the spinner, or the success toast when
+     * the snapshot was saved before the first poll. A quick save can show neither, so a timeout is only logged.
+     */
+    private async waitForSnapshotCreationStarted() {
+        const { ids, types } = this.loadingIndicators;
+        await waitForCondition({
+            label: 'snapshot creation to start (spinner or success toast)',
+            sample: async () => flattenElements(parsePageSource(await this.getPageSource()))
+                .filter((element) => element.visible && (
+                    types.includes(element.type) || ids.includes(element.name ?? '') ||
+                    element.name === 'snapshot-success-toast'))
+                .map(describeElement),
+            isDone: (signals) => signals.length > 0,
+            diagnose: () => ['no spinner or snapshot-success-toast appeared after tapping create-snapshot-button'],
+        }, { timeout: 5000, interval: 200, soft: true });
+    }
+
+    /**
+     * Wait for snapshot creation to complete: the spinner or success toast shows, then the spinner is gone
+     * @throws WaitTimeoutError when the spinner is still shown after the timeout
      */
     public async waitForSnapshotCreationComplete() {
-        // Wait for toast to appear or button to be re-enabled
-        await browser.pause(3000);
+        await this.waitForSnapshotCreationStarted();
+        await this.waitForLoadingToFinish({ timeout: 30000 });
         
         // Try to find success toast
         try {
-            const successToast = $('//XCUIElementTypeStaticText[contains(@label, "snapshot") or contains(@label, "Snapshot")]');
-            await expect(successToast).toBeDisplayed({ wait: 5000 });
+            await expect(RoutineDetailObjects.snapshotSuccessToast).toBeDisplayed({ wait: 5000 });
         } catch (error) {
             // Toast might have disappeared, continue
         }
         
-        await browser.pause(1000);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -358,26 +366,25 @@ class RoutineDetailPage extends Page {
     public async tapExercisesForDay(dayName: string) {
         const exercisesButton = RoutineDetailObjects.getExercisesButtonForDay(dayName);
 
-        let attempts = 0;
-        while (attempts < 5) {
-            const isDisplayed = await exercisesButton.isDisplayed().catch(() => false);
-            if (isDisplayed) {
-                break;
+        // Swipe up (at most 5 times) until the day's button is on screen
+        await retry(async () => {
+            if (!(await exercisesButton.isDisplayed().catch(() => false))) {
+                throw new Error(`Exercises button for "${dayName}" is not displayed`);
             }
-            try {
-                await browser.swipe({ direction: 'up', percent: 0.3 });
-                await browser.pause(500);
-            } catch {
-                // ignore
-            }
-            attempts += 1;
-        }
+        }, {
+            attempts: 6,
+            backoff: 500,
+            label: `Find Exercises button for "${dayName}"`,
+            recover: recoveries.swipe('up', 0.3),
+        }).catch(() => {
+            // Fall through to scrollIntoView below
+        });
 
         await exercisesButton.scrollIntoView();
-        await browser.pause(500);
+        await this.waitForElementToStopMoving(exercisesButton, { soft: true });
         await expect(exercisesButton).toBeDisplayed({ wait: 5000 });
         await exercisesButton.click();
-        await browser.pause(1000);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -398,4 +405,4 @@ export default new RoutineDetailPage();
  *     .execute();
  * ```
  */
-export const createFluentRoutineDetailPage = () => createFluentProxy(new RoutineDetailPage());
+export const createFluentRoutineDetailPage = (options?: FluentProxyOptions) => createFluentProxy(new RoutineDetailPage(), options);
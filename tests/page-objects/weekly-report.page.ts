@@ -1,7 +1,8 @@
 import { expect, browser } from '@wdio/globals';
 import WeeklyReportObjects from './objects/weekly-report.objects.js';
 import Page from './page.js';
-import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
+import MyRoutinesPage from './my-routines.page.js';
+import { createFluentProxy, type FluentProxyOptions } from '../../support/utils/fluent-proxy.js';
 
 /**
  * Page object for the "Weekly Report" screen
@@ -9,11 +10,24 @@ import { createFluentProxy } from '../../support/utils/fluent-proxy.js';
  * @internal
  */
 class WeeklyReportPage extends Page {
+    /**
+     * Back returns to the My Routines list the report was opened from
+     */
+    public readonly transitions = {
+        tapBack: () => MyRoutinesPage,
+    };
+
+    protected readonly loadingIndicators = {
+        ids: ['loading-indicator', 'loading-container'],
+        types: ['XCUIElementTypeActivityIndicator'],
+    };
+
     /**
      * Wait for the Weekly Report screen to be displayed
      */
     public async waitForScreen() {
-        await browser.pause(2000);
+        // Let the screen transition end, so an alert shown on arrival is up before checking for it
+        await this.waitForTreeStable({ soft: true });
         
         // Handle alerts if present
         try {
@@ -21,7 +35,7 @@ class WeeklyReportPage extends Page {
             if (alert) {
                 console.log(`⚠️  Dismissing alert: ${alert}`);
                 await browser.dismissAlert();
-                await browser.pause(1000);
+                await this.waitForTreeStable({ soft: true });
             }
         } catch (error) {
             // No alert present
@@ -40,13 +54,9 @@ class WeeklyReportPage extends Page {
      * Wait for loading to complete
      */
     public async waitForLoadingToComplete() {
-        try {
-            // Wait for loading indicator to disappear
-            await WeeklyReportObjects.loadingIndicator.waitForDisplayed({ timeout: 5000, reverse: true });
-        } catch (error) {
-            // Loading might have already completed
-        }
-        await browser.pause(1000);
+        await this.waitForLoadingToFinish({ timeout: 5000, soft: true });
+        // The report renders its sections once the data is in
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -105,7 +115,7 @@ class WeeklyReportPage extends Page {
     public async tapReload() {
         await expect(WeeklyReportObjects.reloadButton).toBeDisplayed({ wait: 5000 });
         await WeeklyReportObjects.reloadButton.click();
-        await browser.pause(1000);
+        await this.waitForLoadingToFinish({ soft: true });
         return this;
     }
 
@@ -132,7 +142,7 @@ class WeeklyReportPage extends Page {
     public async tapBack() {
         await expect(WeeklyReportObjects.backButton).toBeDisplayed({ wait: 5000 });
         await WeeklyReportObjects.backButton.click();
-        await browser.pause(1000);
+        await this.waitForTreeStable({ soft: true });
         return this;
     }
 
@@ -145,7 +155,7 @@ class WeeklyReportPage extends Page {
     public async verifyExerciseTotalDisplayed(exerciseName: string, totalReps: number, weightKg: number) {
         const exerciseTotal = WeeklyReportObjects.getExerciseTotalByName(exerciseName);
         await exerciseTotal.scrollIntoView();
-        await browser.pause(500);
+        await this.waitForElementToStopMoving(exerciseTotal, { soft: true });
         await expect(exerciseTotal).toBeDisplayed({ wait: 5000 });
         
         // Verify exercise name is displayed
@@ -205,7 +215,7 @@ class WeeklyReportPage extends Page {
     public async getExerciseTotalByIndex(index: number) {
         const exerciseTotal = WeeklyReportObjects.getExerciseTotalByIndex(index);
         await exerciseTotal.scrollIntoView();
-        await browser.pause(500);
+        await this.waitForElementToStopMoving(exerciseTotal, { soft: true });
         await expect(exerciseTotal).toBeDisplayed({ wait: 5000 });
         
         // Get the label/text content of the exercise total element
@@ -234,5 +244,5 @@ export default new WeeklyReportPage();
  *     .execute();
  * ```
  */
-export const createFluentWeeklyReportPage = () => createFluentProxy(new WeeklyReportPage());
+export const createFluentWeeklyReportPage = (options?: FluentProxyOptions) => createFluentProxy(new WeeklyReportPage(), options);
 
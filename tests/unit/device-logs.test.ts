@@ -0,0 +1,110 @@
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { finishTestArtifacts, getRunId, RUNS_DIR, startTestArtifacts } from '../../support/utils/artifacts.js';
+import {
+    filterAppLogs,
+    formatLogEntries,
+    saveDeviceLogs,
+    startDeviceLogs,
+    type DeviceLogEntry,
+} from '../../support/utils/device-logs.js';
+import { createFakeLogSource } from './fake-log-source.js';
+
+const appLine = (message: string, timestamp = Date.now()): DeviceLogEntry => ({ timestamp, level: 'INFO', message });
+
+describe('device logs', () => {
+    afterEach(() => {
+        finishTestArtifacts({ passed: true });
+        delete process.env.DEVICE_LOGS;
+    });
+
+    after(() => {
+        fs.rmSync(path.join(RUNS_DIR, getRunId()), { recursive: true, force: true });
+    });
+
+    describe('filterAppLogs', () => {
+        it('keeps the lines of the app process and of its bundle id', () => {
+            const entries = [
+                appLine('XQFitness[1234:5678] <Notice>: Saving exercise'),
+                appLine('runningboardd[88] <Notice>: [app<com.xqfitness.app>] Now running'),
+                appLine('SpringBoard[55] <Notice>: Home screen shown'),
+                appLine('XQFitnessWidget[99:1] <Notice>: Widget refreshed'),
+            ];
+
+            assert.deepEqual(filterAppLogs(entries).map((entry) => entry.message), [
+                'XQFitness[1234:5678] <Notice>: Saving exercise',
+                'runningboardd[88] <Notice>: [app<com.xqfitness.app>] Now running',
+            ]);
+        });
+    });
+
+    describe('formatLogEntries', () => {
+        it('writes one line per entry with its ISO time and level', () => {
+            const text = formatLogEntries([
+                { timestamp: Date.UTC(2026, 0, 2, 3, 4, 5), level: 'ERROR', message: 'Save failed' },
+                { timestamp: Date.UTC(2026, 0, 2, 3, 4, 6), message: 'no level' },
+            ]);
+
+            assert.equal(text, '2026-01-02T03:04:05.000Z [ERROR] Save failed\n2026-01-02T03:04:06.000Z no level');
+        });
+    });
+
+    describe('startDeviceLogs / saveDeviceLogs', () => {
+        it('saves the lines logged during the test, the syslog filtered to the app', async () => {
+            const bundle = startTestArtifacts({ title: 'saves the window', file: 'device-logs.test.ts' });
+            const syslog = createFakeLogSource('iOS syslog', 'syslog.log', true);
+            const appium = createFakeLogSource('Appium server log', 'appium.log', false);
+            syslog.push(appLine('XQFitness[1:1] logged before the test'));
+
+            await startDeviceLogs([syslog, appium]);
+            syslog.push(appLine('XQFitness[1:1] Save tapped'), appLine('SpringBoard[2] unrelated'));
+            appium.push(appLine('Calling AppiumDriver.click()'));
+            const files = await saveDeviceLogs();
+
+            assert.deepEqual(files.map((file) => path.basename(file)), ['syslog.log', 'appium.log']);
+            const savedSyslog = fs.readFileSync(path.join(bundle.dir, 'syslog.log'), 'utf-8');
+            assert.match(savedSyslog, /Save tapped/);
+            assert.doesNotMatch(savedSyslog, /logged before the test|SpringBoard/);
+            assert.match(fs.readFileSync(path.join(bundle.dir, 'appium.log'), 'utf-8'), /AppiumDriver\.click/);
+        });
+
+        it('drops lines stamped outside the test window', async () => {
+            startTestArtifacts({ title: 'drops old lines', file: 'device-logs.test.ts' });
+            const syslog = createFakeLogSource('iOS syslog', 'syslog.log', true);
+
+            await startDeviceLogs([syslog]);
+            syslog.push(appLine('XQFitness[1:1] buffered late', Date.now() - 60 * 1000));
+
+            assert.deepEqual(await saveDeviceLogs(), []);
+        });
+
+        it('skips a source that cannot be read and keeps the others', async () => {
+            const bundle = startTestArtifacts({ title: 'skips unavailable sources', file: 'device-logs.test.ts' });
+            const syslog = createFakeLogSource('iOS syslog', 'syslog.log', true);
+            const appium = {
+                ...createFakeLogSource('Appium server log', 'appium.log', false),
+                read: async () => {
+                    throw new Error('get_server_logs is not allowed');
+                },
+            };
+
+            await startDeviceLogs([syslog, appium]);
+            syslog.push(appLine('XQFitness[1:1] Save tapped'));
+            const files = await saveDeviceLogs();
+
+            assert.deepEqual(files, [path.join(bundle.dir, 'syslog.log')]);
+        });
+
+        it('collects nothing when DEVICE_LOGS=false', async () => {
+            startTestArtifacts({ title: 'disabled', file: 'device-logs.test.ts' });
+            process.env.DEVICE_LOGS = 'false';
+            const syslog = createFakeLogSource('iOS syslog', 'syslog.log', true);
+
+            await startDeviceLogs([syslog]);
+            syslog.push(appLine('XQFitness[1:1] Save tapped'));
+
+            assert.deepEqual(await saveDeviceLogs(), []);
+        });
+    });
+});
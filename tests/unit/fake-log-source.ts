@@ -0,0 +1,22 @@
+import type { DeviceLogEntry, LogSource } from '../../support/utils/device-logs.js';
+
+/**
+ * In-memory log source for checking the capture without a simulator: push lines, and each read()
+ * returns the lines pushed since the previous read, like the driver does
+ */
+export function createFakeLogSource(name: string, fileName: string, appOnly: boolean): LogSource & { push(...entries: DeviceLogEntry[]): void } {
+    let buffer: DeviceLogEntry[] = [];
+    return {
+        name,
+        fileName,
+        appOnly,
+        push: (...entries: DeviceLogEntry[]) => {
+            buffer.push(...entries);
+        },
+        read: async () => {
+            const entries = buffer;
+            buffer = [];
+            return entries;
+        },
+    };
+}
@@ -0,0 +1,34 @@
+import type { ScreenName } from '../../support/utils/screen-fingerprint.js';
+import type { NavigationDriver, ScreenGraph } from '../../support/utils/screen-navigator.js';
+
+/**
+ * In-memory driver for checking navigation without a simulator: it starts on a screen, and invoking a method
+ * moves to the `to` screen of the graph's transition (or to the screen given in `landsOn`, to simulate a step
+ * that lands elsewhere). The calls made are kept in `invoked`.
+ * @param landsOn Screen reached by `<screen>.<method>` instead of the transition's target, e.g. `{ 'MyRoutines.tapCreateRoutine': 'Unknown' }`
+ */
+export function createFakeNavigationDriver(
+    graph: ScreenGraph,
+    start: ScreenName,
+    landsOn: Record<string, ScreenName> = {},
+): NavigationDriver & { invoked: Array<{ screen: ScreenName; method: string; args: unknown[] }> } {
+    let screen = start;
+    const invoked: Array<{ screen: ScreenName; method: string; args: unknown[] }> = [];
+    return {
+        invoked,
+        currentScreen: async () => screen,
+        invoke: async (from, method, args) => {
+            const transition = graph.transitions.find((candidate) => candidate.from === from && candidate.method === method);
+            if (from !== screen || !transition) {
+                throw new Error(`${from}.${method} cannot be called on ${screen}`);
+            }
+            invoked.push({ screen: from, method, args });
+            screen = landsOn[`${from}.${method}`] ?? transition.to;
+        },
+        waitForScreen: async (expected) => {
+            if (screen !== expected) {
+                throw new Error(`${expected} is not shown (on ${screen})`);
+            }
+        },
+    };
+}
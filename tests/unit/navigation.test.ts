@@ -0,0 +1,57 @@
+import * as assert from 'node:assert/strict';
+import type { ScreenName } from '../../support/utils/screen-fingerprint.js';
+import { navigateWith, type NavigationParams, type ScreenGraph } from '../../support/utils/screen-navigator.js';
+import { createFakeNavigationDriver } from './fake-navigation-driver.js';
+
+/** Targets the specs navigate to, with the params they pass */
+const routes: Array<{ to: ScreenName; params?: NavigationParams }> = [
+    { to: 'MyRoutines' },
+    { to: 'CreateRoutine' },
+    { to: 'WeeklyReport', params: { routineName: 'Push Pull Legs' } },
+    { to: 'ManageWorkoutDay', params: { routineName: 'Push Pull Legs' } },
+    { to: 'ManageExercise', params: { routineName: 'Push Pull Legs', dayName: 'Monday' } },
+];
+const screens: ScreenName[] = ['MyRoutines', 'CreateRoutine', 'RoutineDetail', 'ManageWorkoutDay', 'ManageExercise', 'WeeklyReport'];
+
+describe('screenGraph', () => {
+    let screenGraph: ScreenGraph;
+    let pages: Record<string, object>;
+    let hadGlobals: boolean;
+
+    before(async () => {
+        // The page objects import the WebdriverIO globals; they are only read once a command runs
+        hadGlobals = '_wdioGlobals' in globalThis;
+        if (!hadGlobals) {
+            (globalThis as Record<string, unknown>)._wdioGlobals = new Map<string, unknown>([
+                ['browser', {}], ['driver', {}], ['$', () => ({})], ['$$', () => []], ['expect', () => ({})],
+            ]);
+        }
+        ({ screenGraph } = await import('../page-objects/navigation.js'));
+        ({ pages } = await import('../page-objects/pages.js'));
+    });
+
+    after(() => {
+        if (!hadGlobals) {
+            delete (globalThis as Record<string, unknown>)._wdioGlobals;
+        }
+    });
+
+    it('declares transitions that the page objects implement', () => {
+        for (const { from, method } of screenGraph.transitions) {
+            const page = pages[`${from}Page`] as Record<string, unknown> | undefined;
+            assert.equal(typeof page?.[method], 'function', `${from}Page.${method}`);
+        }
+    });
+
+    for (const { to, params = {} } of routes) {
+        it(`reaches ${to}${Object.keys(params).length > 0 ? ` with ${Object.keys(params).join(', ')}` : ''} from every screen`, async () => {
+            for (const from of screens) {
+                const driver = createFakeNavigationDriver(screenGraph, from);
+
+                await navigateWith(screenGraph, driver, to, params);
+
+                assert.equal(await driver.currentScreen(), to, `from ${from}`);
+            }
+        });
+    }
+});
@@ -0,0 +1,138 @@
+import * as assert from 'node:assert/strict';
+import {
+    navigateWith,
+    NavigationError,
+    ScreenGraph,
+    type ScreenTransition,
+} from '../../support/utils/screen-navigator.js';
+import { createFakeNavigationDriver } from './fake-navigation-driver.js';
+
+const step = (from: ScreenTransition['from'], method: string, to: ScreenTransition['to'], params: string[] = []): ScreenTransition =>
+    ({ from, to, method, params });
+
+/** The app's graph: the list, a detail screen with its forms, and back transitions that close cycles */
+const graph = new ScreenGraph([
+    step('MyRoutines', 'tapCreateRoutine', 'CreateRoutine'),
+    step('MyRoutines', 'tapRoutineItem', 'RoutineDetail', ['routineName']),
+    step('MyRoutines', 'tapReportButtonByName', 'WeeklyReport', ['routineName']),
+    step('CreateRoutine', 'tapBack', 'MyRoutines'),
+    step('RoutineDetail', 'tapAddWorkoutDay', 'ManageWorkoutDay'),
+    step('RoutineDetail', 'tapExercisesForDay', 'ManageExercise', ['dayName']),
+    step('RoutineDetail', 'tapBack', 'MyRoutines'),
+    step('ManageWorkoutDay', 'tapBack', 'RoutineDetail'),
+    step('ManageExercise', 'tapBack', 'RoutineDetail'),
+    step('WeeklyReport', 'tapBack', 'MyRoutines'),
+]);
+
+const methods = (path: ScreenTransition[] | undefined) => path?.map((transition) => `${transition.from}.${transition.method}`);
+
+describe('screen navigator', () => {
+    describe('ScreenGraph.findPath', () => {
+        it('finds the shortest path when a longer one exists', () => {
+            const params = { routineName: 'Push Pull Legs' };
+            const withShortcut = new ScreenGraph([
+                ...graph.transitions,
+                step('RoutineDetail', 'tapWeeklyReport', 'WeeklyReport'),
+            ]);
+
+            assert.deepEqual(methods(graph.findPath('ManageWorkoutDay', 'WeeklyReport', params)), [
+                'ManageWorkoutDay.tapBack',
+                'RoutineDetail.tapBack',
+                'MyRoutines.tapReportButtonByName',
+            ]);
+            assert.deepEqual(methods(withShortcut.findPath('ManageWorkoutDay', 'WeeklyReport', params)), [
+                'ManageWorkoutDay.tapBack',
+                'RoutineDetail.tapWeeklyReport',
+            ]);
+        });
+
+        it('returns an empty path when already on the screen', () => {
+            assert.deepEqual(graph.findPath('RoutineDetail', 'RoutineDetail'), []);
+        });
+
+        it('returns undefined for a screen without a transition to it', () => {
+            assert.equal(graph.findPath('MyRoutines', 'SystemAlert', { routineName: 'Push Pull Legs', dayName: 'Monday' }), undefined);
+        });
+
+        it('skips transitions whose params are not given', () => {
+            assert.equal(graph.findPath('MyRoutines', 'ManageExercise', { routineName: 'Push Pull Legs' }), undefined);
+            assert.deepEqual(methods(graph.findPath('MyRoutines', 'ManageExercise', { routineName: 'Push Pull Legs', dayName: 'Monday' })), [
+                'MyRoutines.tapRoutineItem',
+                'RoutineDetail.tapExercisesForDay',
+            ]);
+        });
+
+        it('visits each screen once when the transitions form cycles', () => {
+            const cycle = new ScreenGraph([
+                step('MyRoutines', 'tapCreateRoutine', 'CreateRoutine'),
+                step('CreateRoutine', 'tapBack', 'MyRoutines'),
+                step('CreateRoutine', 'tapCreateRoutine', 'CreateRoutine'),
+            ]);
+
+            assert.equal(cycle.findPath('MyRoutines', 'WeeklyReport'), undefined);
+            assert.deepEqual(methods(graph.findPath('ManageExercise', 'CreateRoutine')), [
+                'ManageExercise.tapBack',
+                'RoutineDetail.tapBack',
+                'MyRoutines.tapCreateRoutine',
+            ]);
+        });
+    });
+
+    describe('navigateWith', () => {
+        it('walks the path, passing the params each method takes', async () => {
+            const driver = createFakeNavigationDriver(graph, 'CreateRoutine');
+
+            const path = await navigateWith(graph, driver, 'ManageExercise', { routineName: 'Push Pull Legs', dayName: 'Monday' });
+
+            assert.equal(path.length, 3);
+            assert.equal(await driver.currentScreen(), 'ManageExercise');
+            assert.deepEqual(driver.invoked, [
+                { screen: 'CreateRoutine', method: 'tapBack', args: [] },
+                { screen: 'MyRoutines', method: 'tapRoutineItem', args: ['Push Pull Legs'] },
+                { screen: 'RoutineDetail', method: 'tapExercisesForDay', args: ['Monday'] },
+            ]);
+        });
+
+        it('does nothing when the target screen is shown', async () => {
+            const driver = createFakeNavigationDriver(graph, 'WeeklyReport');
+
+            assert.deepEqual(await navigateWith(graph, driver, 'WeeklyReport'), []);
+            assert.deepEqual(driver.invoked, []);
+        });
+
+        it('names the missing params when the screen is reachable only with them', async () => {
+            const driver = createFakeNavigationDriver(graph, 'MyRoutines');
+
+            await assert.rejects(navigateWith(graph, driver, 'ManageExercise', { routineName: 'Push Pull Legs' }), (error) => {
+                assert.ok(error instanceof NavigationError);
+                assert.equal(error.message, 'Cannot navigate from MyRoutines to ManageExercise: no path without dayName');
+                return true;
+            });
+            assert.deepEqual(driver.invoked, []);
+        });
+
+        it('fails for an unreachable screen without invoking anything', async () => {
+            const driver = createFakeNavigationDriver(graph, 'RoutineDetail');
+
+            await assert.rejects(navigateWith(graph, driver, 'SystemAlert'), /Cannot navigate from RoutineDetail to SystemAlert: no path$/);
+            assert.deepEqual(driver.invoked, []);
+        });
+
+        it('fails when the current screen is not recognized', async () => {
+            const driver = createFakeNavigationDriver(graph, 'Unknown');
+
+            await assert.rejects(navigateWith(graph, driver, 'MyRoutines'), /the current screen is not recognized/);
+        });
+
+        it('fails when a step lands on another screen', async () => {
+            const driver = createFakeNavigationDriver(graph, 'MyRoutines', { 'MyRoutines.tapRoutineItem': 'Unknown' });
+
+            await assert.rejects(navigateWith(graph, driver, 'ManageWorkoutDay', { routineName: 'Push Pull Legs' }), (error) => {
+                assert.ok(error instanceof NavigationError);
+                assert.match(error.message, /MyRoutines\.tapRoutineItem did not reach RoutineDetail/);
+                assert.match(String((error.cause as Error).message), /RoutineDetail is not shown \(on Unknown\)/);
+                return true;
+            });
+        });
+    });
+});
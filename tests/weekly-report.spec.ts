@@ -3,6 +3,7 @@ import { createFluentRoutineDetailPage } from './page-objects/routine-detail.pag
 import { createFluentWeeklyReportPage } from './page-objects/weekly-report.page.js';
 import * as kit from '@chauhaidang/xq-common-kit';
 import {Configuration, RoutinesApi, WorkoutDaysApi, WorkoutDaySetsApi} from 'xq-fitness-write-client';
+import { getApiAxios } from '../support/utils/api-traffic.js';
 import { MuscleGroupId } from './enum.js';
 
 describe('Weekly Report', () => {
@@ -16,9 +17,9 @@ describe('Weekly Report', () => {
         const configuration = new Configuration({
             basePath: 'http://localhost:8080/xq-fitness-write-service/api/v1',
         });
-        routinesApi = new RoutinesApi(configuration);
-        workoutDaysApi = new WorkoutDaysApi(configuration);
-        workoutDaySetsApi = new WorkoutDaySetsApi(configuration);
+        routinesApi = new RoutinesApi(configuration, undefined, getApiAxios());
+        workoutDaysApi = new WorkoutDaysApi(configuration, undefined, getApiAxios());
+        workoutDaySetsApi = new WorkoutDaySetsApi(configuration, undefined, getApiAxios());
     });
 
     beforeEach(async () => {
@@ -94,7 +95,7 @@ describe('Weekly Report', () => {
                 .execute();
             
             // Wait for screen to update
-            await browser.pause(1000);
+            await routineDetail.waitForTreeStable({ soft: true }).execute();
             
             // Create snapshot from UI (should capture both workout days) using fluent proxy
             await routineDetail.tapCreateSnapshot().waitForSnapshotCreationComplete().execute();